@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Route, Switch, useLocation } from 'wouter';
-import { Printer, MousePointer2, Type, Save, ArrowLeft, LogOut, Calendar, DollarSign, Coins, Hash, Image as ImageIcon, Undo, Redo, Loader2, Globe, Lock, History, FileDown } from 'lucide-react';
+import { Printer, MousePointer2, Type, Save, ArrowLeft, LogOut, Calendar, DollarSign, Coins, Hash, Image as ImageIcon, Undo, Redo, Loader2, Globe, Lock, History, FileDown, Minus, Square, Circle, Barcode, QrCode, Table, Group, AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal, AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Frame, MoveHorizontal, Maximize, AlertTriangle } from 'lucide-react';
 import CanvasArea from './components/CanvasArea';
 import Sidebar from './components/Sidebar';
 import PrintView from './components/PrintView';
@@ -10,10 +10,27 @@ import Dashboard from './components/Dashboard';
 import HistoryPage from './components/HistoryPage';
 import AdminPanel from './components/AdminPanel';
 import Footer from './components/Footer';
-import { CanvasObject, CanvasSettings, LogicType, Template, UserProfile } from './types';
-import { generateId, numberToEnglish, numberToChinese, formatCurrency, formatDate, convertToPx, MM_TO_PX } from './services/utils';
-import { saveTemplate, getTemplateById, getProfile, logout, addRecentName, GUEST_USER_ID, getHistoryRecordById } from './services/storageService';
+import LayersPanel from './components/LayersPanel';
+import CanvasViewport from './components/CanvasViewport';
+import HistoryPanel from './components/HistoryPanel';
+import { RULER_SIZE } from './components/Ruler';
+import { CanvasObject, CanvasSettings, FontAsset, LogicType, ShapeKind, Template, TemplateDraft, UserProfile } from './types';
+import { generateId, isFormControl, numberToEnglish, numberToChinese, formatCurrency, formatDate, convertToPx, resolveTemplate, MM_TO_PX } from './services/utils';
+import { saveTemplate, getTemplateById, getProfile, logout, addRecentName, GUEST_USER_ID, getHistoryRecordById, getDraft, saveDraft, deleteDraft } from './services/storageService';
 import { supabase } from './services/supabase';
+import { DEFAULT_MODULE_WIDTH_MM, getBarcodeLayout } from './services/barcode';
+import { DEFAULT_QUIET_ZONE } from './services/qrcode';
+import { DEFAULT_MAX_ROWS, DEFAULT_ROW_HEIGHT, createDefaultColumns, getTableLayout } from './services/table';
+import { ReorderAction, getNextZIndex, getObjectLabel, normalizeStackingOrder, reorderObjects } from './services/layers';
+import { PASTE_OFFSET, cloneObjects, getMissingFonts, readClipboard, writeClipboard } from './services/clipboard';
+import { getNudgeStepPx } from './services/snapping';
+import { waitForFonts } from './services/fonts';
+import { AlignAction, DistributeAction, alignObjects, distributeObjects } from './services/alignment';
+import { getCombLayout, isCombText } from './services/textLayout';
+import { EMPTY_HISTORY, EditorDocument, HistoryState, applyHistoryEntry, createHistoryEntry, jumpToHistoryIndex, pushHistoryEntry } from './services/history';
+import { FitMode, VIEWPORT_PADDING, ZOOM_STEP, clampZoom, getFitZoom } from './services/viewport';
+import { getAllObjects, getGroupPath, getScopeObjects, groupObjects, mapLeafObjects, replaceScopeObjects, ungroupObjects } from './services/groups';
+import { setNavigationGuard } from './services/navigation';
 
 function App() {
   const [user, setUser] = useState<UserProfile | null>(null);
@@ -309,6 +326,16 @@ const Navbar = ({ user, onLogout }: { user: UserProfile, onLogout: () => void })
 };
 
 // Editor Page
+const NUDGE_COMMIT_DELAY = 500; // ms without arrow keys before a nudge burst becomes one undo step
+const AUTOSAVE_INTERVAL = 5000; // ms between local draft writes while there are unsaved changes
+
+const REORDER_LABELS: Record<ReorderAction, string> = {
+  forward: 'Bring forward',
+  backward: 'Send backward',
+  front: 'Bring to front',
+  back: 'Send to back',
+};
+
 const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserProfile, fileInputRef: React.RefObject<HTMLInputElement> }) => {
   // Sanitize ID because hash routing might include query params in the ID (e.g. "123?action=print")
   const id = rawId.split('?')[0];
@@ -323,15 +350,44 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
     dpi: 96
   });
   const [objects, setObjects] = useState<CanvasObject[]>([]);
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Group entered for editing its children (null = the page)
+  const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
   const [zoom, setZoom] = useState(1);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  // Align/distribute against the selection bounds or the page
+  const [alignTo, setAlignTo] = useState<'selection' | 'page'>('selection');
   const [templateName, setTemplateName] = useState('Untitled');
   const [isPublic, setIsPublic] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   
-  // History State for Undo/Redo
-  const [history, setHistory] = useState<CanvasObject[][]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  // Undo history: one step per document change (see services/history.ts)
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  // The document before changes made without recording a step (e.g. nudges, a colour drag);
+  // the next recorded step starts from here so it includes them
+  const pendingBaseRef = useRef<EditorDocument | null>(null);
+
+  // Repeated pastes of the same clipboard step further away from the original
+  const pasteRef = useRef({ clipboardId: '', count: 0 });
+  // Identifies this editor for the clipboard, since every unsaved template has the id 'new'
+  const editorSessionRef = useRef(generateId());
+  const [pasteQueue, setPasteQueue] = useState<{ objects: CanvasObject[]; offset: number; fonts: FontAsset[] }[]>([]);
+
+  // A burst of arrow-key nudges is committed as one history entry once the keys go quiet
+  const nudgeTimerRef = useRef<number | null>(null);
+
+  // Autosave: edits since the last save are kept as a local draft (see storageService)
+  const [isDirty, setIsDirty] = useState(false);
+  const isDirtyRef = useRef(false); // Same, for the leave guard, which runs outside React
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [isDraftFailing, setIsDraftFailing] = useState(false); // Last draft write failed (e.g. storage full)
+  // Draft left by an earlier session, waiting for the user to restore or discard it
+  const [pendingDraft, setPendingDraft] = useState<TemplateDraft | null>(null);
+  // The template was saved (e.g. from another device) after the draft was written
+  const [isDraftOutdated, setIsDraftOutdated] = useState(false);
+  const draftPendingRef = useRef(false); // Changes not yet written to the draft
+  const documentRef = useRef<EditorDocument | null>(null); // Latest document for the autosave timer
 
   // Print Mode State
   const [showPrintModal, setShowPrintModal] = useState(false);
@@ -365,21 +421,30 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
 
   useEffect(() => {
     if (id && id !== 'new') {
-        getTemplateById(id, user).then(t => {
+        Promise.all([getTemplateById(id, user), getDraft(id, user.id)]).then(([t, draft]) => {
             if(t) {
+                // Older templates have no explicit stacking order yet
+                const stacked = normalizeStackingOrder(t.objects);
                 setSettings(t.settings);
-                setObjects(t.objects);
+                setObjects(stacked);
                 setTemplateName(t.name);
                 setIsPublic(t.is_public);
                 // Initialize history
-                setHistory([t.objects]);
-                setHistoryIndex(0);
+                setHistory(EMPTY_HISTORY);
+                pendingBaseRef.current = null;
+                setIsDirty(false);
+                isDirtyRef.current = false;
+                draftPendingRef.current = false;
+                setPendingDraft(draft);
+                setIsDraftOutdated(!!draft && new Date(draft.savedAt).getTime() < new Date(t.updatedAt).getTime());
             }
         });
     } else if (id === 'new') {
         // Initialize empty history
-        setHistory([[]]);
-        setHistoryIndex(0);
+        setHistory(EMPTY_HISTORY);
+        pendingBaseRef.current = null;
+        setIsDraftOutdated(false);
+        getDraft('new', user.id).then(setPendingDraft);
     }
   }, [id, user]);
 
@@ -395,8 +460,27 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
   // Note: We do NOT want this to trigger history save, as it's an auto-update.
   useEffect(() => {
     setObjects(currentObjs => {
-      const updated = currentObjs.map(obj => {
-        if (obj.type === 'image') return obj;
+      const updated = mapLeafObjects(currentObjs, obj => {
+        if (obj.type === 'barcode') {
+          // Barcodes encode the print value (or test value); width follows the encoded length
+          const value = (obj.variableKey && printValues[obj.variableKey]) ? printValues[obj.variableKey] : obj.rawValue || '';
+          const withValue = value !== obj.text ? { ...obj, text: value } : obj;
+          const width = getBarcodeLayout(withValue).width;
+          return width !== withValue.width ? { ...withValue, width } : withValue;
+        }
+        if (obj.type === 'qrcode') {
+          // QR payload is a template; placeholders fill in from print values
+          const payload = resolveTemplate(obj.rawValue || '', printValues);
+          return payload !== obj.text ? { ...obj, text: payload } : obj;
+        }
+        if (obj.type === 'table') {
+          // Rows come from the list variable (JSON); size follows columns and reserved rows
+          const rows = (obj.variableKey && printValues[obj.variableKey] !== undefined) ? printValues[obj.variableKey] : obj.rawValue || '';
+          const withRows = rows !== obj.text ? { ...obj, text: rows } : obj;
+          const { width, height } = getTableLayout(withRows);
+          return (width !== withRows.width || height !== withRows.height) ? { ...withRows, width, height } : withRows;
+        }
+        if (obj.type !== 'text') return obj;
 
         // Determine the source value: 
         // 1. If we are in print mode (printValues has data) AND object has a variable key, use that.
@@ -429,57 +513,241 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
           default:
             newText = effectiveValue;
         }
-        return newText !== obj.text ? { ...obj, text: newText } : obj;
+        const withText = newText !== obj.text ? { ...obj, text: newText } : obj;
+        if (!isCombText(withText)) return withText;
+        // Comb width follows the cell count and pitch
+        const { width } = getCombLayout(withText);
+        return width !== withText.width ? { ...withText, width } : withText;
       });
       
       // Only update if something changed to avoid cycles
       const hasChanges = JSON.stringify(updated) !== JSON.stringify(currentObjs);
       return hasChanges ? updated : currentObjs;
     });
-  }, [objects.length, JSON.stringify(printValues), JSON.stringify(objects.map(o => o.rawValue + o.variableKey + o.logicType + o.dateFormat))]); 
+  }, [getAllObjects(objects).length, JSON.stringify(printValues), JSON.stringify(getAllObjects(objects).map(o => o.rawValue + o.variableKey + o.logicType + o.dateFormat + o.symbology + o.moduleWidth + JSON.stringify(o.columns) + o.rowHeight + o.maxRows + o.showHeader + o.combCells + o.combPitch))]); 
 
   // --- Undo / Redo Logic ---
   
-  const saveToHistory = useCallback((newObjects: CanvasObject[]) => {
-      setHistory(prev => {
-          const newHistory = prev.slice(0, historyIndex + 1);
-          newHistory.push(newObjects);
-          // Limit history size to 50
-          if (newHistory.length > 50) newHistory.shift();
-          return newHistory;
-      });
-      setHistoryIndex(prev => Math.min(prev + 1, 49));
-  }, [historyIndex]);
+  const getDocument = (): EditorDocument => ({ objects, settings, name: templateName, isPublic });
 
-  const updateObjects = (newObjs: CanvasObject[], recordHistory: boolean = true) => {
-      setObjects(newObjs);
+  const setDocument = (doc: Partial<EditorDocument>) => {
+      if (doc.objects) setObjects(doc.objects);
+      if (doc.settings) setSettings(doc.settings);
+      if (doc.name !== undefined) setTemplateName(doc.name);
+      if (doc.isPublic !== undefined) setIsPublic(doc.isPublic);
+  };
+
+  // Record the step from the last recorded state (including any pending changes) to `after`
+  const recordStep = (after: EditorDocument, label?: string, mergeable = false) => {
+      // Any other change already contains the pending nudge positions, so it absorbs them
+      if (nudgeTimerRef.current !== null) {
+          clearTimeout(nudgeTimerRef.current);
+          nudgeTimerRef.current = null;
+      }
+      const before = pendingBaseRef.current || getDocument();
+      pendingBaseRef.current = null;
+      const entry = createHistoryEntry(before, after, label, mergeable);
+      if (entry) setHistory(prev => pushHistoryEntry(prev, entry));
+  };
+
+  const markDirty = () => {
+      setIsDirty(true);
+      isDirtyRef.current = true;
+      draftPendingRef.current = true;
+  };
+
+  // Every document change goes through here: objects, settings, name and visibility
+  const updateDocument = (changes: Partial<EditorDocument>, options: { recordHistory?: boolean; label?: string; mergeable?: boolean } = {}) => {
+      const { recordHistory = true, label, mergeable } = options;
+      setDocument(changes);
+      markDirty();
       if (recordHistory) {
-          saveToHistory(newObjs);
+          recordStep({ ...getDocument(), ...changes }, label, mergeable);
+      } else if (!pendingBaseRef.current) {
+          pendingBaseRef.current = getDocument();
       }
   };
 
-  const handleUndo = useCallback(() => {
-      if (historyIndex > 0) {
-          const newIndex = historyIndex - 1;
-          setHistoryIndex(newIndex);
-          setObjects(history[newIndex]);
+  const updateObjects = (newObjs: CanvasObject[], recordHistory: boolean = true, label?: string) => {
+      updateDocument({ objects: newObjs }, { recordHistory, label });
+  };
+
+  const handleUpdateSettings = (next: CanvasSettings) => {
+      updateDocument({ settings: next }, { mergeable: true });
+  };
+
+  // --- Editing Scope ---
+  // Inside an entered group every edit works on its children, then is written back into the tree
+
+  const scopeObjects = getScopeObjects(objects, activeGroupId);
+
+  const updateScopeObjects = (newScope: CanvasObject[], recordHistory: boolean = true, label?: string) => {
+      updateObjects(replaceScopeObjects(objects, activeGroupId, newScope), recordHistory, label);
+  };
+
+  // Property edits from the panels: a burst of the same edit (typing a size) becomes one step
+  const handleUpdateObject = (updated: CanvasObject, recordHistory: boolean = true) => {
+      const newObjects = replaceScopeObjects(objects, activeGroupId, scopeObjects.map(o => o.id === updated.id ? updated : o));
+      updateDocument({ objects: newObjects }, { recordHistory, mergeable: true });
+  };
+
+  const handleEnterGroup = (groupId: string) => {
+      setActiveGroupId(groupId);
+      setSelectedIds([]);
+  };
+
+  // Step out one level and keep the group that was being edited selected
+  const handleExitGroup = () => {
+      if (!activeGroupId) return;
+      const path = getGroupPath(objects, activeGroupId);
+      setActiveGroupId(path.length > 1 ? path[path.length - 2].id : null);
+      setSelectedIds([activeGroupId]);
+  };
+
+  // Zoom so the page (with its rulers) fills the viewport, by width or entirely
+  const handleFitZoom = (mode: FitMode) => {
+      const viewport = viewportRef.current;
+      if (!viewport) return;
+      const available = {
+          width: viewport.clientWidth - VIEWPORT_PADDING * 2 - RULER_SIZE,
+          height: viewport.clientHeight - VIEWPORT_PADDING * 2 - RULER_SIZE,
+      };
+      setZoom(getFitZoom(available, settings, mode));
+  };
+
+  // Undo or loading another template can take the entered group away
+  useEffect(() => {
+      if (activeGroupId && !getAllObjects(objects).some(o => o.id === activeGroupId)) {
+          setActiveGroupId(null);
       }
-  }, [historyIndex, history]);
+  }, [objects, activeGroupId]);
 
-  const handleRedo = useCallback(() => {
-      if (historyIndex < history.length - 1) {
-          const newIndex = historyIndex + 1;
-          setHistoryIndex(newIndex);
-          setObjects(history[newIndex]);
+  // Uncommitted changes (e.g. nudges still waiting for the keys to go quiet) are the most
+  // recent step: drop them and return the document as it was before them
+  const discardPendingChanges = (): EditorDocument | null => {
+      if (nudgeTimerRef.current !== null) {
+          clearTimeout(nudgeTimerRef.current);
+          nudgeTimerRef.current = null;
       }
-  }, [historyIndex, history]);
+      const base = pendingBaseRef.current;
+      pendingBaseRef.current = null;
+      return base;
+  };
 
-  // Keyboard Shortcuts for Undo/Redo
+  const handleUndo = () => {
+      const base = discardPendingChanges();
+      if (base) {
+          setDocument(base);
+          markDirty();
+          return;
+      }
+      if (history.index > 0) {
+          setDocument(applyHistoryEntry(getDocument(), history.entries[history.index - 1], 'undo'));
+          setHistory({ ...history, index: history.index - 1 });
+          markDirty();
+      }
+  };
+
+  const handleRedo = () => {
+      if (pendingBaseRef.current) return; // Nothing to redo after a fresh change
+      if (history.index < history.entries.length) {
+          setDocument(applyHistoryEntry(getDocument(), history.entries[history.index], 'redo'));
+          setHistory({ ...history, index: history.index + 1 });
+          markDirty();
+      }
+  };
+
+  // Jump straight to any step from the history panel (0 = the earliest state still kept)
+  const handleJumpToHistory = (target: number) => {
+      const doc = discardPendingChanges() || getDocument();
+      setDocument(jumpToHistoryIndex(doc, history, target));
+      setHistory({ ...history, index: target });
+      markDirty();
+  };
+
+  // --- Autosave ---
+  // Every few seconds (and when the tab closes) unsaved changes are written to a local draft,
+  // so a closed tab or a failed save can be recovered when the template is opened again
+
+  useEffect(() => {
+      documentRef.current = getDocument();
+  }, [objects, settings, templateName, isPublic]);
+
+  useEffect(() => {
+      if (pendingDraft) return; // Nothing is edited until the earlier draft is restored or discarded
+      const writeDraft = () => {
+          const doc = documentRef.current;
+          if (!draftPendingRef.current || !doc) return;
+          draftPendingRef.current = false;
+          const draft: TemplateDraft = {
+              templateId: id,
+              name: doc.name,
+              objects: doc.objects,
+              settings: doc.settings,
+              is_public: doc.isPublic,
+              savedAt: new Date().toISOString(),
+          };
+          saveDraft(draft, user.id).then(saved => {
+              setIsDraftFailing(!saved);
+              if (saved) setDraftSavedAt(draft.savedAt);
+              // Not written: keep the changes pending so the next tick tries again
+              else draftPendingRef.current = true;
+          });
+      };
+      const timer = window.setInterval(writeDraft, AUTOSAVE_INTERVAL);
+      window.addEventListener('pagehide', writeDraft);
+      return () => {
+          clearInterval(timer);
+          window.removeEventListener('pagehide', writeDraft);
+          writeDraft(); // Leaving the editor
+      };
+  }, [id, user, pendingDraft]);
+
+  // Closing or reloading the tab asks first while there are unsaved changes
+  useEffect(() => {
+      if (!isDirty) return;
+      const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+          e.preventDefault();
+          e.returnValue = '';
+      };
+      window.addEventListener('beforeunload', handleBeforeUnload);
+      return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  const handleRestoreDraft = () => {
+      if (!pendingDraft) return;
+      updateDocument({
+          objects: normalizeStackingOrder(pendingDraft.objects),
+          settings: pendingDraft.settings,
+          name: pendingDraft.name,
+          isPublic: pendingDraft.is_public,
+      }, { label: 'Restore unsaved changes' });
+      setPendingDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+      if (!pendingDraft) return;
+      deleteDraft(pendingDraft.templateId, user.id);
+      setPendingDraft(null);
+  };
+
+  // The draft stays behind on this device, but leaving should still be a deliberate choice,
+  // whichever way the route changes (back button, nav links, browser Back)
+  useEffect(() => {
+      return setNavigationGuard(() => !isDirtyRef.current || window.confirm('You have unsaved changes. Leave the editor anyway?\n\nThey are kept as a draft on this device and can be restored next time you open this template.'));
+  }, []);
+
+  const handleLeaveEditor = () => {
+      setLocation('/dashboard');
+  };
+
+  // Keyboard Shortcuts for Undo/Redo, Stacking Order and Delete
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Check if input/textarea is focused to avoid conflict (though undo usually wanted there too, browser handles text undo)
       const target = e.target as HTMLElement;
       if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (pendingDraft) return; // Restore or discard the earlier draft first
 
       if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
         e.preventDefault();
@@ -491,12 +759,55 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
       } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
           e.preventDefault();
           handleRedo();
+      } else if ((e.ctrlKey || e.metaKey) && (e.key === ']' || e.key === '}')) {
+          e.preventDefault();
+          handleReorder(e.shiftKey ? 'front' : 'forward');
+      } else if ((e.ctrlKey || e.metaKey) && (e.key === '[' || e.key === '{')) {
+          e.preventDefault();
+          handleReorder(e.shiftKey ? 'back' : 'backward');
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'c' && selectedIds.length > 0) {
+          e.preventDefault();
+          handleCopy();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'x' && selectedIds.length > 0) {
+          e.preventDefault();
+          handleCut();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'v') {
+          e.preventDefault();
+          handlePaste();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') {
+          e.preventDefault(); // Also stops the browser bookmark dialog
+          handleDuplicate();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g') {
+          e.preventDefault();
+          if (e.shiftKey) {
+              handleUngroup();
+          } else {
+              handleGroup();
+          }
+      } else if (e.key === 'Escape' && activeGroupId) {
+          handleExitGroup();
+      } else if (e.key.startsWith('Arrow') && !e.ctrlKey && !e.metaKey && !e.altKey && selectedIds.length > 0 && !isFormControl(e.target)) {
+          e.preventDefault();
+          const step = getNudgeStepPx(settings, e.shiftKey);
+          const dx = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+          const dy = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0;
+          handleNudge(dx, dy);
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds.length > 0 && !isFormControl(e.target)) {
+          e.preventDefault();
+          handleDeleteObjects(selectedIds);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleUndo, handleRedo]);
+  }, [history, selectedIds, objects, id, settings, templateName, isPublic, activeGroupId, pendingDraft]);
+
+  // New objects go on top of the stack and become the selection
+  const addObject = (newObj: CanvasObject) => {
+    const placed = { ...newObj, zIndex: getNextZIndex(scopeObjects) };
+    updateScopeObjects([...scopeObjects, placed]);
+    setSelectedIds([placed.id]);
+  };
 
   const handleAddText = () => {
     const newObj: CanvasObject = {
@@ -507,9 +818,7 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
       fontSize: 16, fontFamily: 'Arial', align: 'left',
       logicType: LogicType.STATIC
     };
-    const newList = [...objects, newObj];
-    updateObjects(newList);
-    setSelectedId(newObj.id);
+    addObject(newObj);
   };
 
   const handleAddDate = () => {
@@ -523,9 +832,7 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
       logicType: LogicType.DATE,
       dateFormat: 'YYYY-MM-DD'
     };
-    const newList = [...objects, newObj];
-    updateObjects(newList);
-    setSelectedId(newObj.id);
+    addObject(newObj);
   };
 
   const handleAddCurrencyEng = () => {
@@ -538,9 +845,7 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
       fontSize: 16, fontFamily: 'Arial', align: 'left',
       logicType: LogicType.CURRENCY_ENG
     };
-    const newList = [...objects, newObj];
-    updateObjects(newList);
-    setSelectedId(newObj.id);
+    addObject(newObj);
   };
 
   const handleAddCurrencyChi = () => {
@@ -553,9 +858,7 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
       fontSize: 16, fontFamily: 'Arial', align: 'left',
       logicType: LogicType.CURRENCY_CHI
     };
-    const newList = [...objects, newObj];
-    updateObjects(newList);
-    setSelectedId(newObj.id);
+    addObject(newObj);
   };
 
   const handleAddCurrencyNum = () => {
@@ -568,9 +871,65 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
       fontSize: 16, fontFamily: 'Arial', align: 'left',
       logicType: LogicType.CURRENCY_NUM
     };
-    const newList = [...objects, newObj];
-    updateObjects(newList);
-    setSelectedId(newObj.id);
+    addObject(newObj);
+  };
+
+  const handleAddShape = (shapeKind: ShapeKind) => {
+    const isLine = shapeKind === 'line';
+    addObject({
+      id: generateId(),
+      type: 'shape',
+      shapeKind,
+      x: 50, y: 50,
+      width: isLine ? 200 : 150,
+      height: isLine ? 0 : 80,
+      stroke: '#000000',
+      strokeWidth: 1,
+      dashStyle: 'solid',
+      fill: '',
+      cornerRadius: shapeKind === 'roundedRect' ? 8 : undefined
+    });
+  };
+
+  const handleAddBarcode = () => {
+    addObject({
+      id: generateId(),
+      type: 'barcode',
+      x: 50, y: 50, width: 200, height: 60,
+      text: '123456789012', rawValue: '123456789012',
+      variableKey: 'barcode',
+      symbology: 'CODE128',
+      moduleWidth: DEFAULT_MODULE_WIDTH_MM,
+      showText: true,
+      fontSize: 12, fontFamily: 'Arial'
+    });
+  };
+
+  const handleAddQrCode = () => {
+    addObject({
+      id: generateId(),
+      type: 'qrcode',
+      x: 50, y: 50, width: 120, height: 120,
+      text: 'INV-{{invoice_no}}', rawValue: 'INV-{{invoice_no}}',
+      ecLevel: 'M',
+      quietZone: DEFAULT_QUIET_ZONE
+    });
+  };
+
+  const handleAddTable = () => {
+    addObject({
+      id: generateId(),
+      type: 'table',
+      x: 50, y: 50, width: 460, height: DEFAULT_ROW_HEIGHT * (DEFAULT_MAX_ROWS + 1),
+      text: '', rawValue: '',
+      variableKey: 'items',
+      columns: createDefaultColumns(),
+      rowHeight: DEFAULT_ROW_HEIGHT,
+      maxRows: DEFAULT_MAX_ROWS,
+      showHeader: true,
+      showBorders: true,
+      fontSize: 12, fontFamily: 'Arial'
+    });
   };
 
   const handleImageUploadClick = () => {
@@ -606,19 +965,136 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
                   text: '', rawValue: '',
                   opacity: 0.5 // Default opacity 50%
               };
-              const newList = [...objects, newObj];
-              updateObjects(newList);
-              setSelectedId(newObj.id);
+              addObject(newObj);
           };
       };
       reader.readAsDataURL(file);
       if (fileInputRef.current) fileInputRef.current.value = ''; // Reset
   };
 
-  const handleDeleteObject = (objId: string) => {
-      const newList = objects.filter(o => o.id !== objId);
-      updateObjects(newList);
-      if (selectedId === objId) setSelectedId(null);
+  const handleDeleteObjects = (objIds: string[]) => {
+      if (objIds.length === 0) return;
+      const newList = scopeObjects.filter(o => !objIds.includes(o.id));
+      if (activeGroupId && newList.length === 0) {
+          // Deleting the last child removes the now empty group as well
+          const path = getGroupPath(objects, activeGroupId);
+          const parentId = path.length > 1 ? path[path.length - 2].id : null;
+          const parentScope = getScopeObjects(objects, parentId).filter(o => o.id !== activeGroupId);
+          updateObjects(replaceScopeObjects(objects, parentId, parentScope));
+          setActiveGroupId(parentId);
+          setSelectedIds([]);
+          return;
+      }
+      updateScopeObjects(newList);
+      setSelectedIds(prev => prev.filter(sid => !objIds.includes(sid)));
+  };
+
+  const handleNudge = (dx: number, dy: number) => {
+      const movedScope = scopeObjects.map(o => (selectedIds.includes(o.id) && !o.locked ? { ...o, x: o.x + dx, y: o.y + dy } : o));
+      const moved = replaceScopeObjects(objects, activeGroupId, movedScope);
+      updateObjects(moved, false);
+      if (nudgeTimerRef.current !== null) clearTimeout(nudgeTimerRef.current);
+      const after = { ...getDocument(), objects: moved };
+      nudgeTimerRef.current = window.setTimeout(() => recordStep(after), NUDGE_COMMIT_DELAY);
+  };
+
+  // --- Clipboard ---
+
+  const handleCopy = () => {
+      const selected = scopeObjects.filter(o => selectedIds.includes(o.id));
+      if (selected.length === 0) return;
+      const payload = writeClipboard(selected, editorSessionRef.current, settings.fonts);
+      pasteRef.current = { clipboardId: payload.id, count: 0 };
+  };
+
+  const handleCut = () => {
+      handleCopy();
+      handleDeleteObjects(selectedIds);
+  };
+
+  const handlePaste = async () => {
+      const payload = readClipboard();
+      if (!payload || payload.objects.length === 0) return;
+      if (pasteRef.current.clipboardId !== payload.id) {
+          pasteRef.current = { clipboardId: payload.id, count: 0 };
+      }
+      pasteRef.current.count++;
+      // Pasting into another template keeps the original position the first time
+      const steps = payload.sourceSessionId === editorSessionRef.current ? pasteRef.current.count : pasteRef.current.count - 1;
+      // Custom fonts come along so the pasted text keeps its look
+      const fonts = await getMissingFonts(payload, settings.fonts);
+      setPasteQueue(queue => [...queue, { objects: payload.objects, offset: steps * PASTE_OFFSET, fonts }]);
+  };
+
+  // Applied one per render, after the font lookup, so each paste builds on the latest document
+  // (edits made meanwhile, or an earlier paste) rather than the one it started from
+  useEffect(() => {
+      if (pasteQueue.length === 0) return;
+      const { objects: source, offset, fonts } = pasteQueue[0];
+      const pasted = cloneObjects(source, offset, getNextZIndex(scopeObjects));
+      const newFonts = fonts.filter(f => !(settings.fonts || []).some(t => t.family === f.family));
+      updateDocument({
+          objects: replaceScopeObjects(objects, activeGroupId, [...scopeObjects, ...pasted]),
+          ...(newFonts.length > 0 ? { settings: { ...settings, fonts: [...(settings.fonts || []), ...newFonts] } } : {}),
+      }, { label: 'Paste' });
+      setSelectedIds(pasted.map(o => o.id));
+      setPasteQueue(queue => queue.slice(1));
+  }, [pasteQueue]);
+
+  const handleDuplicate = () => {
+      const selected = scopeObjects.filter(o => selectedIds.includes(o.id));
+      if (selected.length === 0) return;
+      const copies = cloneObjects(selected, PASTE_OFFSET, getNextZIndex(scopeObjects));
+      updateScopeObjects([...scopeObjects, ...copies], true, 'Duplicate');
+      setSelectedIds(copies.map(o => o.id));
+  };
+
+  const handleReorder = (action: ReorderAction) => {
+      if (selectedIds.length === 0) return;
+      updateScopeObjects(reorderObjects(scopeObjects, selectedIds, action), true, REORDER_LABELS[action]);
+  };
+
+  // --- Align / Distribute ---
+
+  // The page in scope coordinates; entered groups only shift it (their rotation is not undone)
+  const getPageBox = () => {
+      const origin = getGroupPath(objects, activeGroupId).reduce((p, g) => ({ x: p.x + g.x, y: p.y + g.y }), { x: 0, y: 0 });
+      return { x: -origin.x, y: -origin.y, width: settings.width, height: settings.height };
+  };
+
+  // A single object has nothing to align with but the page
+  const alignsToPage = () => alignTo === 'page' || selectedIds.length === 1;
+
+  const handleAlign = (action: AlignAction) => {
+      if (selectedIds.length === 0) return;
+      updateScopeObjects(alignObjects(scopeObjects, selectedIds, action, alignsToPage() ? getPageBox() : undefined), true, `Align ${action}`);
+  };
+
+  const handleDistribute = (action: DistributeAction) => {
+      if (selectedIds.length < 2) return;
+      updateScopeObjects(distributeObjects(scopeObjects, selectedIds, action, alignTo === 'page' ? getPageBox() : undefined), true, `Distribute ${action}ly`);
+  };
+
+  // --- Groups ---
+
+  const handleGroup = () => {
+      const { objects: grouped, group } = groupObjects(scopeObjects, selectedIds);
+      if (!group) return;
+      updateScopeObjects(grouped, true, 'Group');
+      setSelectedIds([group.id]);
+  };
+
+  const handleUngroup = () => {
+      const { objects: ungrouped, released } = ungroupObjects(scopeObjects, selectedIds);
+      if (released.length === 0) return;
+      updateScopeObjects(ungrouped, true, 'Ungroup');
+      setSelectedIds(released);
+  };
+
+  // Apply several object changes at once as a single history entry (group move / resize)
+  const handleChangeObjects = (changed: CanvasObject[], recordHistory: boolean = true) => {
+      const changedById = new Map(changed.map(o => [o.id, o]));
+      updateScopeObjects(scopeObjects.map(o => changedById.get(o.id) || o), recordHistory);
   };
 
   const handleSave = async () => {
@@ -637,6 +1113,14 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
         };
         
         const newId = await saveTemplate(template, user);
+        // Saved: the draft is no longer needed (a new template's draft is filed under 'new')
+        setIsDirty(false);
+        isDirtyRef.current = false;
+        draftPendingRef.current = false;
+        setDraftSavedAt(null);
+        setIsDraftFailing(false);
+        // Not awaited: a draft that fails to clear is only offered again, the template itself is saved
+        deleteDraft(id, user.id).catch(e => console.error("Clearing draft failed", e));
         
         if (id === 'new') {
             setLocation(`/editor/${newId}`);
@@ -651,27 +1135,56 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
     }
   };
 
-  const selectedObject = objects.find(o => o.id === selectedId) || null;
+  const selectedObjects = scopeObjects.filter(o => selectedIds.includes(o.id));
+
+  const alignButtons: { action: AlignAction; title: string; icon: React.ReactNode }[] = [
+    { action: 'left', title: 'Align Left', icon: <AlignStartVertical size={16} /> },
+    { action: 'center', title: 'Align Center', icon: <AlignCenterVertical size={16} /> },
+    { action: 'right', title: 'Align Right', icon: <AlignEndVertical size={16} /> },
+    { action: 'top', title: 'Align Top', icon: <AlignStartHorizontal size={16} /> },
+    { action: 'middle', title: 'Align Middle', icon: <AlignCenterHorizontal size={16} /> },
+    { action: 'bottom', title: 'Align Bottom', icon: <AlignEndHorizontal size={16} /> },
+  ];
+  const distributeButtons: { action: DistributeAction; title: string; icon: React.ReactNode }[] = [
+    { action: 'horizontal', title: 'Distribute Horizontally', icon: <AlignHorizontalDistributeCenter size={16} /> },
+    { action: 'vertical', title: 'Distribute Vertically', icon: <AlignVerticalDistributeCenter size={16} /> },
+  ];
+  // Equal spacing needs three objects, or two spread across the page
+  const canDistribute = selectedIds.length >= (alignTo === 'page' ? 2 : 3);
+  const groupPath = getGroupPath(objects, activeGroupId);
 
   return (
     <div className="flex flex-col h-screen bg-gray-100">
       {/* Top Toolbar */}
       <div className="bg-white border-b border-gray-200 h-16 flex items-center justify-between px-4 no-print">
         <div className="flex items-center gap-4">
-          <button onClick={() => setLocation('/dashboard')} className="text-gray-500 hover:text-gray-700">
+          <button onClick={handleLeaveEditor} className="text-gray-500 hover:text-gray-700">
             <ArrowLeft size={20} />
           </button>
           <div>
             <input
                 type="text"
                 value={templateName}
-                onChange={(e) => setTemplateName(e.target.value)}
+                onChange={(e) => updateDocument({ name: e.target.value }, { mergeable: true })}
                 className="font-bold text-gray-900 border-none focus:ring-0 p-0 text-lg"
             />
+            <div className="text-[11px] leading-none h-3">
+              {isDirty && isDraftFailing ? (
+                <span className="text-red-600" title="Your changes could not be kept as a draft on this device (storage full?). Save the template to keep them.">
+                  Unsaved changes · draft not saved
+                </span>
+              ) : isDirty ? (
+                <span className="text-amber-600" title={draftSavedAt ? `Draft kept on this device at ${new Date(draftSavedAt).toLocaleTimeString()}` : undefined}>
+                  {draftSavedAt ? 'Unsaved changes · draft kept' : 'Unsaved changes'}
+                </span>
+              ) : (
+                <span className="text-gray-400">{id === 'new' ? 'Not saved yet' : 'All changes saved'}</span>
+              )}
+            </div>
           </div>
           
           <button 
-            onClick={() => setIsPublic(!isPublic)}
+            onClick={() => updateDocument({ isPublic: !isPublic })}
             className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium transition-colors ${isPublic ? 'bg-green-100 text-green-700 hover:bg-green-200' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
             title={isPublic ? "Public: Visible in Gallery" : "Private: Only visible to you"}
           >
@@ -681,28 +1194,78 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
 
           <div className="h-6 w-px bg-gray-300 mx-2"></div>
           <div className="flex bg-gray-100 rounded-lg p-1">
-             <button onClick={() => setZoom(z => Math.max(0.2, z - 0.1))} className="px-2 text-sm font-medium hover:bg-white rounded">-</button>
+             <button onClick={() => setZoom(z => clampZoom(z - ZOOM_STEP))} className="px-2 text-sm font-medium hover:bg-white rounded" title="Zoom out (Ctrl + wheel)">-</button>
              <span className="px-2 text-xs flex items-center">{Math.round(zoom * 100)}%</span>
-             <button onClick={() => setZoom(z => Math.min(2, z + 0.1))} className="px-2 text-sm font-medium hover:bg-white rounded">+</button>
+             <button onClick={() => setZoom(z => clampZoom(z + ZOOM_STEP))} className="px-2 text-sm font-medium hover:bg-white rounded" title="Zoom in (Ctrl + wheel)">+</button>
+             <button onClick={() => handleFitZoom('width')} className="px-1.5 text-gray-600 hover:bg-white rounded" title="Fit to width">
+               <MoveHorizontal size={14} />
+             </button>
+             <button onClick={() => handleFitZoom('page')} className="px-1.5 text-gray-600 hover:bg-white rounded" title="Fit page (Space + drag to pan)">
+               <Maximize size={14} />
+             </button>
           </div>
           <div className="h-6 w-px bg-gray-300 mx-2"></div>
           <div className="flex gap-1">
               <button 
                 onClick={handleUndo} 
-                disabled={historyIndex <= 0}
-                className={`p-2 rounded-lg flex items-center justify-center transition-colors ${historyIndex <= 0 ? 'text-gray-300 cursor-not-allowed' : 'text-gray-600 hover:bg-gray-100'}`}
-                title="Undo (Ctrl+Z)"
+                disabled={history.index <= 0}
+                className={`p-2 rounded-lg flex items-center justify-center transition-colors ${history.index <= 0 ? 'text-gray-300 cursor-not-allowed' : 'text-gray-600 hover:bg-gray-100'}`}
+                title={history.index > 0 ? `Undo ${history.entries[history.index - 1].label} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
               >
                   <Undo size={18} />
               </button>
               <button 
                 onClick={handleRedo}
-                disabled={historyIndex >= history.length - 1}
-                className={`p-2 rounded-lg flex items-center justify-center transition-colors ${historyIndex >= history.length - 1 ? 'text-gray-300 cursor-not-allowed' : 'text-gray-600 hover:bg-gray-100'}`}
-                title="Redo (Ctrl+Y or Ctrl+Shift+Z)"
+                disabled={history.index >= history.entries.length}
+                className={`p-2 rounded-lg flex items-center justify-center transition-colors ${history.index >= history.entries.length ? 'text-gray-300 cursor-not-allowed' : 'text-gray-600 hover:bg-gray-100'}`}
+                title={history.index < history.entries.length ? `Redo ${history.entries[history.index].label} (Ctrl+Y or Ctrl+Shift+Z)` : 'Redo (Ctrl+Y or Ctrl+Shift+Z)'}
               >
                   <Redo size={18} />
               </button>
+              <div className="relative">
+                  <button
+                    onClick={() => setShowHistoryPanel(v => !v)}
+                    className={`p-2 rounded-lg flex items-center justify-center transition-colors ${showHistoryPanel ? 'bg-indigo-50 text-indigo-600' : 'text-gray-600 hover:bg-gray-100'}`}
+                    title="Edit history"
+                  >
+                      <History size={18} />
+                  </button>
+                  {showHistoryPanel && (
+                      <HistoryPanel history={history} onJump={handleJumpToHistory} onClose={() => setShowHistoryPanel(false)} />
+                  )}
+              </div>
+          </div>
+          <div className="h-6 w-px bg-gray-300 mx-2"></div>
+          <div className="flex items-center gap-0.5">
+              {alignButtons.map(b => (
+                  <button
+                    key={b.action}
+                    onClick={() => handleAlign(b.action)}
+                    disabled={selectedIds.length === 0}
+                    className={`p-1.5 rounded-lg ${selectedIds.length === 0 ? 'text-gray-300 cursor-not-allowed' : 'text-gray-600 hover:bg-gray-100'}`}
+                    title={b.title}
+                  >
+                      {b.icon}
+                  </button>
+              ))}
+              {distributeButtons.map(b => (
+                  <button
+                    key={b.action}
+                    onClick={() => handleDistribute(b.action)}
+                    disabled={!canDistribute}
+                    className={`p-1.5 rounded-lg ${!canDistribute ? 'text-gray-300 cursor-not-allowed' : 'text-gray-600 hover:bg-gray-100'}`}
+                    title={b.title}
+                  >
+                      {b.icon}
+                  </button>
+              ))}
+              <button
+                onClick={() => setAlignTo(a => a === 'page' ? 'selection' : 'page')}
+                className={`p-1.5 rounded-lg ${alignTo === 'page' ? 'bg-indigo-50 text-indigo-600' : 'text-gray-600 hover:bg-gray-100'}`}
+                title={alignTo === 'page' ? 'Aligning to the page (click to align to the selection)' : 'Aligning to the selection (click to align to the page)'}
+              >
+                  <Frame size={16} />
+              </button>
           </div>
         </div>
 
@@ -716,6 +1279,24 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
            <button onClick={handleImageUploadClick} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg flex items-center gap-2 text-sm" title="Add Image">
              <ImageIcon size={18} /> <span className="hidden sm:inline">Img</span>
            </button>
+           <button onClick={handleAddBarcode} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg" title="Add Barcode">
+             <Barcode size={18} />
+           </button>
+           <button onClick={handleAddQrCode} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg" title="Add QR Code">
+             <QrCode size={18} />
+           </button>
+           <button onClick={handleAddTable} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg" title="Add Line-Item Table">
+             <Table size={18} />
+           </button>
+           <button onClick={() => handleAddShape('line')} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg" title="Add Line">
+             <Minus size={18} />
+           </button>
+           <button onClick={() => handleAddShape('rect')} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg" title="Add Box">
+             <Square size={18} />
+           </button>
+           <button onClick={() => handleAddShape('ellipse')} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg" title="Add Ellipse">
+             <Circle size={18} />
+           </button>
            
            {/* Dropdown for currencies could be better, but keeping simple buttons for now */}
            <div className="h-6 w-px bg-gray-300 mx-1"></div>
@@ -758,34 +1339,83 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
         </div>
       </div>
 
+      {/* Draft left by an earlier session: decided before editing, since autosave would otherwise
+          have to choose between keeping that draft and protecting the new work */}
+      {pendingDraft && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60 no-print backdrop-blur-sm p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-5 space-y-4">
+            <h3 className="flex items-center gap-2 font-semibold text-gray-900">
+              <AlertTriangle size={18} className="text-amber-500" /> Unsaved changes found
+            </h3>
+            <p className="text-sm text-gray-700">
+              {isDraftOutdated
+                ? <>This device has unsaved changes from {new Date(pendingDraft.savedAt).toLocaleString()}, but a newer version of this template has been saved since. Restoring them replaces that newer version.</>
+                : <>This template has unsaved changes from {new Date(pendingDraft.savedAt).toLocaleString()}. Restore them?</>}
+            </p>
+            <div className="flex justify-end gap-2 text-sm">
+              <button onClick={handleDiscardDraft} className="px-3 py-1.5 rounded text-gray-700 hover:bg-gray-100">Discard</button>
+              <button onClick={handleRestoreDraft} className="px-3 py-1.5 rounded bg-amber-600 text-white hover:bg-amber-700">{isDraftOutdated ? 'Restore anyway' : 'Restore'}</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Main Workspace */}
       <div className="flex-1 flex overflow-hidden no-print">
          <Sidebar 
-            selectedObject={selectedObject}
+            selectedObjects={selectedObjects}
             settings={settings}
-            onUpdateObject={(updated, recordHistory) => {
-                // Determine if this update should record history
-                // Continuous text input might span too many history entries, but keeping it simple for now
-                updateObjects(objects.map(o => o.id === updated.id ? updated : o), recordHistory);
-            }}
-            onUpdateSettings={setSettings}
-            onDeleteObject={handleDeleteObject}
+            // Continuous text input might span too many history entries, but keeping it simple for now
+            onUpdateObject={handleUpdateObject}
+            onUpdateSettings={handleUpdateSettings}
+            onDeleteObjects={handleDeleteObjects}
+            onGroup={handleGroup}
+            onUngroup={handleUngroup}
+            onEnterGroup={handleEnterGroup}
             user={user}
          />
          
-         <div className="flex-1 bg-gray-100 overflow-auto p-8 relative flex justify-center">
+         <CanvasViewport
+            zoom={zoom}
+            onZoomChange={setZoom}
+            settings={settings}
+            objects={objects}
+            viewportRef={viewportRef}
+            overlay={groupPath.length > 0 && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 bg-indigo-600 text-white text-xs rounded-full pl-3 pr-1 py-1 shadow">
+                <Group size={14} />
+                <span>Editing {groupPath.map(g => getObjectLabel(g)).join(' › ')}</span>
+                <button onClick={handleExitGroup} className="bg-white/20 hover:bg-white/30 rounded-full px-2 py-0.5 font-medium" title="Exit group (Esc)">
+                  Done
+                </button>
+              </div>
+            )}
+         >
             <CanvasArea 
               settings={settings}
               objects={objects}
-              selectedId={selectedId}
-              onSelect={setSelectedId}
-              onChangeObject={(updated, recordHistory) => {
-                  // This is called onDragEnd / TransformEnd, which are distinct history events
-                  updateObjects(objects.map(o => o.id === updated.id ? updated : o), recordHistory);
-              }}
+              selectedIds={selectedIds}
+              onSelect={setSelectedIds}
+              onChangeObject={handleUpdateObject} // Inline text editing
+              onChangeObjects={handleChangeObjects} // onDragEnd / TransformEnd, batched per gesture
+              onUpdateSettings={handleUpdateSettings}
               scale={zoom}
+              activeGroupId={activeGroupId}
+              onEnterGroup={handleEnterGroup}
+              onExitGroup={handleExitGroup}
             />
-         </div>
+         </CanvasViewport>
+
+         <LayersPanel
+            objects={scopeObjects}
+            selectedIds={selectedIds}
+            onSelect={setSelectedIds}
+            onUpdateObject={handleUpdateObject}
+            onReorder={handleReorder}
+            groupPath={groupPath}
+            onEnterGroup={handleEnterGroup}
+            onExitGroup={handleExitGroup}
+         />
       </div>
 
       {/* Print Modal */}
@@ -797,8 +1427,8 @@ const EditorPage = ({ id: rawId, user, fileInputRef }: { id: string, user: UserP
         onPrint={(values) => {
             setPrintValues(values);
             setShowPrintModal(false);
-            // Slight delay to allow DOM to update
-            setTimeout(() => window.print(), 100);
+            // Slight delay to allow DOM to update; uploaded fonts must be ready before the print snapshot
+            setTimeout(() => waitForFonts(settings.fonts).then(() => window.print()), 100);
         }}
         onValuesChange={(vals) => setPrintValues(vals)}
         templateId={id}
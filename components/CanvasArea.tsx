@@ -1,26 +1,72 @@
 import React, { useRef, useEffect, useState, useMemo } from 'react';
-import { Stage, Layer, Text, Image as KonvaImage, Transformer, Rect } from 'react-konva';
-import { CanvasObject, CanvasSettings } from '../types';
+import { Stage, Layer, Text, Image as KonvaImage, Transformer, Rect, Line, Group, Ellipse, Shape } from 'react-konva';
+import { CanvasObject, CanvasSettings, Guide } from '../types';
+import { Box, GuideLine, SnapTargets, SNAP_THRESHOLD, addGuideTargets, getGridSizePx, getSnapTargets, snapBox, snapPoint } from '../services/snapping';
+import { generateId } from '../services/utils';
+import { DESIGN_TINT_COLOR, getCanvasOpacity, getDesignTint, sortByStackingOrder } from '../services/layers';
+import { getShapeStroke } from '../services/shapes';
+import { getBarcodeLayout } from '../services/barcode';
+import { getQrLayout } from '../services/qrcode';
+import { getTableLayout } from '../services/table';
+import { getAllObjects, getScopeObjects, scaleObject } from '../services/groups';
+import { DEFAULT_TEXT_COLOR, getCssTextStyle, getKonvaFontStyle, getKonvaTextStyle } from '../services/textStyle';
+import { CORNER_SHIFT, DEFAULT_COMB_PITCH_MM, getCombLayout, getFittedText, getVerticalLayout, hasFitMode, isCombText, isVerticalText } from '../services/textLayout';
+import { loadFonts } from '../services/fonts';
+import { hasImageAdjustments, renderAdjustedImage } from '../services/imageFilters';
+import Ruler, { RULER_SIZE } from './Ruler';
 import Konva from 'konva';
 
 interface CanvasAreaProps {
   settings: CanvasSettings;
   objects: CanvasObject[];
-  selectedId: string | null;
-  onSelect: (id: string | null) => void;
+  selectedIds: string[];
+  onSelect: (ids: string[]) => void;
   onChangeObject: (obj: CanvasObject, recordHistory?: boolean) => void;
+  onChangeObjects: (objs: CanvasObject[], recordHistory?: boolean) => void;
+  onUpdateSettings: (settings: CanvasSettings) => void;
   scale: number;
+  activeGroupId: string | null; // Group being edited; selection and changes apply to its children
+  onEnterGroup: (groupId: string) => void;
+  onExitGroup: () => void;
 }
 
+type SelectEvent = Konva.KonvaEventObject<Event>;
+
+// Mouse and touch events both carry modifier keys; tap events are typed as plain Event
+const hasModifier = (evt: Event) => {
+    const { shiftKey, ctrlKey, metaKey } = evt as MouseEvent;
+    return shiftKey || ctrlKey || metaKey;
+};
+
+interface SelectionRect {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+// Text has no cached bitmap for the RGBA filter, so the design-only tint is mixed into its fill
+// with the same blend (tint strength as alpha)
+const getTextFill = (obj: CanvasObject): string => {
+    const color = obj.color || DEFAULT_TEXT_COLOR;
+    const tint = getDesignTint(obj);
+    if (tint <= 0) return color;
+    const { r, g, b } = Konva.Util.getRGB(color);
+    const mix = (c: number, t: number) => Math.round(t * tint + c * (1 - tint));
+    return `rgb(${mix(r, DESIGN_TINT_COLOR.red)}, ${mix(g, DESIGN_TINT_COLOR.green)}, ${mix(b, DESIGN_TINT_COLOR.blue)})`;
+};
+
 interface CanvasImageObjectProps {
     obj: CanvasObject;
-    onSelect: () => void;
+    onSelect: (e: SelectEvent) => void;
     onChangeObject: (o: CanvasObject, recordHistory?: boolean) => void;
 }
 
 // Subcomponent to handle loading standard image objects for Konva
 const CanvasImageObject: React.FC<CanvasImageObjectProps> = ({ obj, onSelect, onChangeObject }) => {
     const [image, setImage] = useState<HTMLImageElement | null>(null);
+    const imageRef = useRef<Konva.Image>(null);
+    const tint = getDesignTint(obj);
 
     useEffect(() => {
         if (obj.src) {
@@ -30,16 +76,40 @@ const CanvasImageObject: React.FC<CanvasImageObjectProps> = ({ obj, onSelect, on
         }
     }, [obj.src]);
 
+    // Crop, rotation and tone filters (see services/imageFilters.ts) are redrawn only when they change
+    const adjusted = useMemo(() => {
+        if (!image || !hasImageAdjustments(obj)) return image;
+        return renderAdjustedImage(image, obj);
+    }, [image, JSON.stringify(obj.imageCrop), obj.imageRotation, obj.brightness, obj.contrast, obj.grayscale, obj.threshold, obj.transparentWhite]);
+
+    // Konva filters only run on a cached node; re-cache whenever the bitmap or its size changes
+    useEffect(() => {
+        const node = imageRef.current;
+        if (!node || !adjusted) return;
+        if (tint > 0) {
+            node.cache();
+        } else {
+            node.clearCache();
+        }
+        node.getLayer()?.batchDraw();
+    }, [adjusted, tint, obj.width, obj.height]);
+
     return (
         <KonvaImage
+            ref={imageRef}
+            filters={tint > 0 ? [Konva.Filters.RGBA] : []}
+            {...DESIGN_TINT_COLOR}
+            alpha={tint}
             id={obj.id}
             x={obj.x}
             y={obj.y}
             width={obj.width}
             height={obj.height}
-            image={image || undefined}
-            opacity={obj.opacity ?? 1}
-            draggable
+            rotation={obj.rotation || 0}
+            image={adjusted || undefined}
+            opacity={getCanvasOpacity(obj)}
+            draggable={!obj.locked}
+            listening={!obj.locked}
             onClick={onSelect}
             onTap={onSelect}
             onMouseEnter={(e) => {
@@ -69,6 +139,7 @@ const CanvasImageObject: React.FC<CanvasImageObjectProps> = ({ obj, onSelect, on
                     ...obj,
                     x: node.x(),
                     y: node.y(),
+                    rotation: node.rotation(),
                     width: Math.max(5, node.width() * scaleX),
                     height: Math.max(5, node.height() * scaleY)
                 }, true);
@@ -77,43 +148,424 @@ const CanvasImageObject: React.FC<CanvasImageObjectProps> = ({ obj, onSelect, on
     );
 };
 
+// Subcomponent for line / rectangle / ellipse shapes. All kinds keep (x, y) at the top-left
+// so rotation and snapping behave the same as for text and images.
+const CanvasShapeObject: React.FC<CanvasImageObjectProps> = ({ obj, onSelect, onChangeObject }) => {
+    const { stroke, strokeWidth, dash, fill } = getShapeStroke(obj);
+    const width = obj.width;
+    const height = obj.height || 0;
+
+    const common = {
+        id: obj.id,
+        x: obj.x,
+        y: obj.y,
+        rotation: obj.rotation || 0,
+        opacity: getCanvasOpacity(obj),
+        stroke,
+        strokeWidth,
+        dash,
+        draggable: !obj.locked,
+        listening: !obj.locked,
+        onClick: onSelect,
+        onTap: onSelect,
+        onMouseEnter: (e: Konva.KonvaEventObject<MouseEvent>) => {
+            const stage = e.target.getStage();
+            if (stage) stage.container().style.cursor = 'move';
+        },
+        onMouseLeave: (e: Konva.KonvaEventObject<MouseEvent>) => {
+            const stage = e.target.getStage();
+            if (stage) stage.container().style.cursor = 'default';
+        },
+        onDragEnd: (e: Konva.KonvaEventObject<DragEvent>) => {
+            onChangeObject({
+                ...obj,
+                x: e.target.x(),
+                y: e.target.y(),
+            }, true);
+        },
+        onTransformEnd: (e: Konva.KonvaEventObject<Event>) => {
+            const node = e.target;
+            const scaleX = node.scaleX();
+            const scaleY = node.scaleY();
+
+            node.scaleX(1);
+            node.scaleY(1);
+
+            onChangeObject({
+                ...obj,
+                x: node.x(),
+                y: node.y(),
+                rotation: node.rotation(),
+                width: Math.max(1, width * scaleX),
+                height: obj.shapeKind === 'line' ? height : Math.max(1, height * scaleY)
+            }, true);
+        },
+    };
+
+    switch (obj.shapeKind) {
+        case 'line':
+            // Wide hit area so thin lines are still easy to grab
+            return <Line {...common} points={[0, 0, width, 0]} hitStrokeWidth={Math.max(10, strokeWidth)} />;
+        case 'ellipse':
+            return (
+                <Ellipse
+                    {...common}
+                    radiusX={width / 2}
+                    radiusY={height / 2}
+                    offsetX={-width / 2}
+                    offsetY={-height / 2}
+                    fill={fill}
+                />
+            );
+        default:
+            return (
+                <Rect
+                    {...common}
+                    width={width}
+                    height={height}
+                    cornerRadius={obj.shapeKind === 'roundedRect' ? obj.cornerRadius || 0 : 0}
+                    fill={fill}
+                />
+            );
+    }
+};
+
+// Subcomponent for barcodes: bars are drawn as individual rects so modules stay crisp at any zoom.
+// Width comes from the encoding; only height is resizable.
+const CanvasBarcodeObject: React.FC<CanvasImageObjectProps> = ({ obj, onSelect, onChangeObject }) => {
+    const layout = useMemo(() => getBarcodeLayout(obj), [obj]);
+    const height = obj.height || 60;
+
+    return (
+        <Group
+            id={obj.id}
+            x={obj.x}
+            y={obj.y}
+            rotation={obj.rotation || 0}
+            opacity={getCanvasOpacity(obj)}
+            draggable={!obj.locked}
+            listening={!obj.locked}
+            onClick={onSelect}
+            onTap={onSelect}
+            onMouseEnter={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'move';
+            }}
+            onMouseLeave={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'default';
+            }}
+            onDragEnd={(e) => {
+                onChangeObject({
+                    ...obj,
+                    x: e.target.x(),
+                    y: e.target.y(),
+                }, true);
+            }}
+            onTransformEnd={(e) => {
+                const node = e.target;
+                const scaleY = node.scaleY();
+
+                node.scaleX(1);
+                node.scaleY(1);
+
+                onChangeObject({
+                    ...obj,
+                    x: node.x(),
+                    y: node.y(),
+                    rotation: node.rotation(),
+                    height: Math.max(10, height * scaleY)
+                }, true);
+            }}
+        >
+            {/* Hit area covering quiet zones and text */}
+            <Rect width={layout.width} height={height} fill="rgba(0,0,0,0)" />
+            {layout.error ? (
+                <>
+                    <Rect width={layout.width} height={height} stroke="#ef4444" strokeWidth={1} dash={[4, 4]} listening={false} />
+                    <Text text={layout.error} width={layout.width} height={height} padding={4} fontSize={11} fill="#ef4444" align="center" verticalAlign="middle" listening={false} />
+                </>
+            ) : (
+                <>
+                    {layout.bars.map((bar, i) => (
+                        <Rect key={i} x={bar.x} width={bar.width} height={layout.barHeight} fill="#000000" listening={false} />
+                    ))}
+                    {layout.textSize > 0 && (
+                        <Text
+                            y={layout.barHeight + layout.textSize * 0.2}
+                            width={layout.width}
+                            text={layout.text}
+                            fontSize={layout.textSize}
+                            fontFamily={obj.fontFamily || 'Arial'}
+                            align="center"
+                            listening={false}
+                        />
+                    )}
+                </>
+            )}
+        </Group>
+    );
+};
+
+// Subcomponent for QR codes: module runs are drawn in one custom shape to keep large symbols cheap.
+// QR codes stay square, so a resize scales both sides together.
+const CanvasQrObject: React.FC<CanvasImageObjectProps> = ({ obj, onSelect, onChangeObject }) => {
+    const layout = useMemo(() => getQrLayout(obj), [obj]);
+    const size = obj.width;
+
+    return (
+        <Group
+            id={obj.id}
+            x={obj.x}
+            y={obj.y}
+            rotation={obj.rotation || 0}
+            opacity={getCanvasOpacity(obj)}
+            draggable={!obj.locked}
+            listening={!obj.locked}
+            onClick={onSelect}
+            onTap={onSelect}
+            onMouseEnter={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'move';
+            }}
+            onMouseLeave={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'default';
+            }}
+            onDragEnd={(e) => {
+                onChangeObject({
+                    ...obj,
+                    x: e.target.x(),
+                    y: e.target.y(),
+                }, true);
+            }}
+            onTransformEnd={(e) => {
+                const node = e.target;
+                const scale = Math.max(node.scaleX(), node.scaleY());
+
+                node.scaleX(1);
+                node.scaleY(1);
+
+                const newSize = Math.max(20, size * scale);
+                onChangeObject({
+                    ...obj,
+                    x: node.x(),
+                    y: node.y(),
+                    rotation: node.rotation(),
+                    width: newSize,
+                    height: newSize
+                }, true);
+            }}
+        >
+            {/* Hit area covering the quiet zone */}
+            <Rect width={size} height={size} fill="rgba(0,0,0,0)" />
+            {layout.error ? (
+                <>
+                    <Rect width={size} height={size} stroke="#ef4444" strokeWidth={1} dash={[4, 4]} listening={false} />
+                    <Text text={layout.error} width={size} height={size} padding={4} fontSize={11} fill="#ef4444" align="center" verticalAlign="middle" listening={false} />
+                </>
+            ) : (
+                <Shape
+                    listening={false}
+                    fill="#000000"
+                    sceneFunc={(ctx, shape) => {
+                        ctx.beginPath();
+                        layout.runs.forEach(run => ctx.rect(run.x, run.y, run.width, layout.moduleSize));
+                        ctx.fillShape(shape);
+                    }}
+                />
+            )}
+        </Group>
+    );
+};
+
+// Subcomponent for line-item tables. Resizing scales column widths and row height;
+// the object's width/height are then re-derived from them.
+const CanvasTableObject: React.FC<CanvasImageObjectProps> = ({ obj, onSelect, onChangeObject }) => {
+    const layout = useMemo(() => getTableLayout(obj), [obj]);
+    const fontSize = obj.fontSize || 12;
+    const borderColor = obj.showBorders !== false ? '#000000' : undefined;
+
+    return (
+        <Group
+            id={obj.id}
+            x={obj.x}
+            y={obj.y}
+            rotation={obj.rotation || 0}
+            opacity={getCanvasOpacity(obj)}
+            draggable={!obj.locked}
+            listening={!obj.locked}
+            onClick={onSelect}
+            onTap={onSelect}
+            onMouseEnter={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'move';
+            }}
+            onMouseLeave={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'default';
+            }}
+            onDragEnd={(e) => {
+                onChangeObject({
+                    ...obj,
+                    x: e.target.x(),
+                    y: e.target.y(),
+                }, true);
+            }}
+            onTransformEnd={(e) => {
+                const node = e.target;
+                const scaleX = node.scaleX();
+                const scaleY = node.scaleY();
+
+                node.scaleX(1);
+                node.scaleY(1);
+
+                onChangeObject({
+                    ...obj,
+                    x: node.x(),
+                    y: node.y(),
+                    rotation: node.rotation(),
+                    columns: (obj.columns || []).map(c => ({ ...c, width: Math.max(10, Math.round(c.width * scaleX)) })),
+                    rowHeight: Math.max(8, Math.round(layout.rowHeight * scaleY))
+                }, true);
+            }}
+        >
+            {/* Hit area; unbordered tables get a faint outline so they can be found while designing */}
+            <Rect
+                width={layout.width}
+                height={layout.height}
+                fill="rgba(0,0,0,0)"
+                stroke={borderColor || '#d1d5db'}
+                strokeWidth={1}
+                dash={borderColor ? undefined : [4, 4]}
+            />
+            {borderColor && (
+                <Group listening={false}>
+                    {layout.rowLines.map((y, i) => (
+                        <Line key={`r${i}`} points={[0, y, layout.width, y]} stroke={borderColor} strokeWidth={1} />
+                    ))}
+                    {layout.columns.slice(1).map(c => (
+                        <Line key={c.column.id} points={[c.x, 0, c.x, layout.height]} stroke={borderColor} strokeWidth={1} />
+                    ))}
+                </Group>
+            )}
+            {layout.cells.map((cell, i) => (
+                <Text
+                    key={i}
+                    x={cell.x}
+                    y={cell.y}
+                    width={cell.width}
+                    text={cell.text}
+                    fontSize={fontSize}
+                    fontFamily={obj.fontFamily || 'Arial'}
+                    fontStyle={cell.header ? 'bold' : 'normal'}
+                    align={cell.align}
+                    wrap="none"
+                    ellipsis={true}
+                    listening={false}
+                />
+            ))}
+        </Group>
+    );
+};
+
 const CanvasArea: React.FC<CanvasAreaProps> = ({
   settings,
   objects,
-  selectedId,
+  selectedIds,
   onSelect,
   onChangeObject,
-  scale
+  onChangeObjects,
+  onUpdateSettings,
+  scale,
+  activeGroupId,
+  onEnterGroup,
+  onExitGroup
 }) => {
   const stageRef = useRef<Konva.Stage>(null);
   const trRef = useRef<Konva.Transformer>(null);
+
+  // Rubber-band (marquee) selection, in unscaled canvas coordinates
+  const [selectionRect, setSelectionRect] = useState<SelectionRect | null>(null);
+
+  // Drag/transform end fires once per attached node when several are selected.
+  // Collect them and commit in one call so a group move is a single undo step.
+  const pendingChangesRef = useRef<Map<string, CanvasObject>>(new Map());
+
+  // Smart guides shown while dragging / transforming
+  const [smartGuides, setSmartGuides] = useState<GuideLine[]>([]);
+  const snapTargetsRef = useRef<SnapTargets | null>(null);
+  const movingIdsRef = useRef<string[]>([]);
+  const gridSize = getGridSizePx(settings);
   
   // State for Inline Text Editing
   const [editingId, setEditingId] = useState<string | null>(null);
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
 
-  // Sort objects so images are always rendered first (at the bottom)
-  // Logic: Images = -1 (first/bottom), Text = 1 (last/top)
+  // Render in explicit stacking order (bottom first); hidden objects are left out entirely
   const sortedObjects = useMemo(() => {
-    return [...objects].sort((a, b) => {
-        if (a.type === 'image' && b.type !== 'image') return -1;
-        if (a.type !== 'image' && b.type === 'image') return 1;
-        return 0; // Maintain existing order for same types
-    });
+    return sortByStackingOrder(objects).filter(o => !o.hidden);
   }, [objects]);
 
+  // Konva measures text when it is laid out, so redraw from scratch once uploaded fonts are ready
+  const [fontsVersion, setFontsVersion] = useState(0);
+  const fontIds = (settings.fonts || []).map(f => f.id).join(',');
   useEffect(() => {
-    if (selectedId && trRef.current && stageRef.current) {
-      // Find the selected node
-      const selectedNode = stageRef.current.findOne('#' + selectedId);
-      if (selectedNode) {
-        trRef.current.nodes([selectedNode]);
+    if (!fontIds) return;
+    let cancelled = false;
+    loadFonts(settings.fonts).then(() => {
+      if (!cancelled) setFontsVersion(v => v + 1);
+    });
+    return () => { cancelled = true; };
+  }, [fontIds]);
+
+  // Objects that can be selected and edited: the page, or the children of the entered group.
+  // Their coordinates are relative to that group, which is also how their Konva nodes are placed.
+  const scopeObjects = useMemo(() => getScopeObjects(objects, activeGroupId), [objects, activeGroupId]);
+
+  useEffect(() => {
+    if (selectedIds.length > 0 && trRef.current && stageRef.current) {
+      // Find the selected nodes
+      const stage = stageRef.current;
+      // Locked objects can be selected from the layers panel but never moved or resized
+      const selected = scopeObjects.filter(o => selectedIds.includes(o.id) && !o.locked);
+      const selectedNodes = selected
+        .map(o => stage.findOne('#' + o.id))
+        .filter((node): node is Konva.Node => !!node);
+      if (selectedNodes.length > 0) {
+        trRef.current.nodes(selectedNodes);
         
         // Custom Transformer Config
-        const isImage = objects.find(o => o.id === selectedId)?.type === 'image';
+        const isLineOnly = selected.every(o => o.type === 'shape' && o.shapeKind === 'line');
+        const isTextFree = selected.every(o => o.type !== 'text');
+        const isBoxTextOnly = selected.every(o => isVerticalText(o) || isCombText(o));
+        const isBarcodeOnly = selected.every(o => o.type === 'barcode');
+        const isQrOnly = selected.every(o => o.type === 'qrcode');
+        const hasGroup = selected.some(o => o.type === 'group');
         
-        if (isImage) {
-            trRef.current.keepRatio(false); // Allow distort/stretch for images
+        if (hasGroup) {
+            // Groups scale their contents uniformly so text and codes keep their proportions
+            trRef.current.keepRatio(true);
+            trRef.current.enabledAnchors(['top-left', 'top-right', 'bottom-left', 'bottom-right']);
+        } else if (isQrOnly) {
+            // QR codes are square; corner anchors scale both sides together
+            trRef.current.keepRatio(true);
+            trRef.current.enabledAnchors(['top-left', 'top-right', 'bottom-left', 'bottom-right']);
+        } else if (isBarcodeOnly) {
+            // Barcode width follows the module width, so only bar height can be dragged
+            trRef.current.keepRatio(false);
+            trRef.current.enabledAnchors(['top-center', 'bottom-center']);
+        } else if (isLineOnly) {
+            // Lines only have a length; rotate them for other angles
+            trRef.current.keepRatio(false);
+            trRef.current.enabledAnchors(['middle-left', 'middle-right']);
+        } else if (isBoxTextOnly) {
+            // Vertical text: sides set the column box (width = columns, height = column length).
+            // Comb text: sides set the cell pitch and height. Corners scale the font for both.
+            trRef.current.keepRatio(false);
+            trRef.current.enabledAnchors(['top-left', 'top-center', 'top-right', 'middle-right', 'middle-left', 'bottom-left', 'bottom-center', 'bottom-right']);
+        } else if (isTextFree) {
+            trRef.current.keepRatio(false); // Allow distort/stretch for images and shapes
             trRef.current.enabledAnchors(['top-left', 'top-center', 'top-right', 'middle-right', 'middle-left', 'bottom-left', 'bottom-center', 'bottom-right']);
         } else {
             // Text Optimization:
@@ -123,23 +575,224 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({
             trRef.current.enabledAnchors(['top-left', 'top-right', 'bottom-left', 'bottom-right', 'middle-left', 'middle-right']);
         }
 
+        trRef.current.getLayer()?.batchDraw();
+      } else {
+        trRef.current.nodes([]);
         trRef.current.getLayer()?.batchDraw();
       }
     } else if (trRef.current) {
       trRef.current.nodes([]);
       trRef.current.getLayer()?.batchDraw();
     }
-  }, [selectedId, objects]);
-
-  // Handle outside click to deselect or finish editing
-  const checkDeselect = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
-    const clickedOnEmpty = e.target === e.target.getStage();
-    if (clickedOnEmpty) {
-      onSelect(null);
-      setEditingId(null); // Close text editor if open
+  }, [selectedIds, scopeObjects, fontsVersion]);
+
+  const queueChange = (obj: CanvasObject) => {
+      const pending = pendingChangesRef.current;
+      if (pending.size === 0) {
+          setTimeout(() => {
+              const changed = Array.from(pending.values());
+              pending.clear();
+              if (changed.length > 0) onChangeObjects(changed, true);
+          }, 0);
+      }
+      pending.set(obj.id, obj);
+  };
+
+  // --- Snapping ---
+
+  const getNodeBox = (id: string): Box | null => {
+      const stage = stageRef.current;
+      const node = stage?.findOne('#' + id);
+      return stage && node ? node.getClientRect({ relativeTo: stage }) : null;
+  };
+
+  // Collect edges of every object that is not being moved, plus the ruler guides
+  const computeSnapTargets = (movingIds: string[]): SnapTargets | null => {
+      let targets: SnapTargets | null = null;
+      if (settings.snapToObjects !== false) {
+          const boxes = scopeObjects
+              .filter(o => !movingIds.includes(o.id))
+              .map(o => getNodeBox(o.id))
+              .filter((b): b is Box => !!b);
+          targets = getSnapTargets(boxes, settings.width, settings.height);
+      }
+      return addGuideTargets(targets, settings.guides || []);
+  };
+
+  const isObjectNode = (node: Konva.Node) => scopeObjects.some(o => o.id === node.id());
+
+  const handleDragStart = (e: Konva.KonvaEventObject<DragEvent>) => {
+      if (!isObjectNode(e.target)) return; // Ignore transformer anchors
+      const id = e.target.id();
+      movingIdsRef.current = selectedIds.includes(id) ? selectedIds : [id];
+      snapTargetsRef.current = computeSnapTargets(movingIdsRef.current);
+  };
+
+  const handleDragMove = (e: Konva.KonvaEventObject<DragEvent>) => {
+      const stage = stageRef.current;
+      if (!stage || !isObjectNode(e.target)) return;
+
+      // Snap the bounding box of everything being moved, then shift each node by the same amount
+      const nodes = movingIdsRef.current
+          .map(id => stage.findOne('#' + id))
+          .filter((node): node is Konva.Node => !!node);
+      if (nodes.length === 0) return;
+      const rects = nodes.map(n => n.getClientRect({ relativeTo: stage }));
+      const x = Math.min(...rects.map(r => r.x));
+      const y = Math.min(...rects.map(r => r.y));
+      const box = {
+          x, y,
+          width: Math.max(...rects.map(r => r.x + r.width)) - x,
+          height: Math.max(...rects.map(r => r.y + r.height)) - y,
+      };
+
+      const { dx, dy, guides: nextGuides } = snapBox(
+          box,
+          snapTargetsRef.current,
+          SNAP_THRESHOLD / scale,
+          settings.snapToGrid ? gridSize : 0
+      );
+      if (dx !== 0 || dy !== 0) {
+          nodes.forEach(n => n.position({ x: n.x() + dx, y: n.y() + dy }));
+      }
+      setSmartGuides(nextGuides);
+  };
+
+  const clearGuides = () => {
+      snapTargetsRef.current = null;
+      setSmartGuides([]);
+  };
+
+  // Transformer anchors arrive in absolute (zoomed) coordinates
+  const snapAnchor = (_oldPos: Konva.Vector2d, newPos: Konva.Vector2d): Konva.Vector2d => {
+      if (trRef.current?.getActiveAnchor() === 'rotater') return newPos;
+      const { dx, dy, guides: nextGuides } = snapPoint(
+          newPos.x / scale,
+          newPos.y / scale,
+          snapTargetsRef.current,
+          SNAP_THRESHOLD / scale,
+          settings.snapToGrid ? gridSize : 0
+      );
+      setSmartGuides(nextGuides);
+      return { x: newPos.x + dx * scale, y: newPos.y + dy * scale };
+  };
+
+  // Grid lines, thinned out when zoomed so far out that they would merge
+  const gridLines = useMemo(() => {
+      if (!settings.showGrid || gridSize <= 0) return [];
+      const step = gridSize * Math.max(1, Math.ceil(4 / (gridSize * scale)));
+      const lines: number[][] = [];
+      for (let x = step; x < settings.width; x += step) lines.push([x, 0, x, settings.height]);
+      for (let y = step; y < settings.height; y += step) lines.push([0, y, settings.width, y]);
+      return lines;
+  }, [settings.showGrid, settings.width, settings.height, gridSize, scale]);
+
+  // --- Ruler Guides ---
+
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [draftGuide, setDraftGuide] = useState<Omit<Guide, 'id'> | null>(null);
+  const guides = settings.guides || [];
+
+  const isOffPage = (g: Omit<Guide, 'id'>) => {
+      const limit = g.orientation === 'vertical' ? settings.width : settings.height;
+      return g.position < 0 || g.position > limit;
+  };
+
+  const updateGuides = (next: Guide[]) => {
+      onUpdateSettings({ ...settings, guides: next });
+  };
+
+  // Dragging out of the top ruler creates a horizontal guide, out of the left ruler a vertical one
+  const handleRulerMouseDown = (orientation: Guide['orientation']) => (e: React.MouseEvent) => {
+      e.preventDefault();
+      const rect = canvasRef.current?.getBoundingClientRect();
+      if (!rect) return;
+
+      const toPosition = (ev: MouseEvent) => orientation === 'vertical'
+          ? (ev.clientX - rect.left) / scale
+          : (ev.clientY - rect.top) / scale;
+
+      const handleMove = (ev: MouseEvent) => setDraftGuide({ orientation, position: toPosition(ev) });
+      const handleUp = (ev: MouseEvent) => {
+          window.removeEventListener('mousemove', handleMove);
+          window.removeEventListener('mouseup', handleUp);
+          setDraftGuide(null);
+          const guide = { id: generateId(), orientation, position: toPosition(ev) };
+          if (!isOffPage(guide)) updateGuides([...guides, guide]);
+      };
+      window.addEventListener('mousemove', handleMove);
+      window.addEventListener('mouseup', handleUp);
+  };
+
+  // Dropping a guide back outside the page removes it
+  const handleGuideDragEnd = (guide: Guide, e: Konva.KonvaEventObject<DragEvent>) => {
+      const position = guide.orientation === 'vertical' ? e.target.x() : e.target.y();
+      const moved = { ...guide, position };
+      updateGuides(isOffPage(moved)
+          ? guides.filter(g => g.id !== guide.id)
+          : guides.map(g => g.id === guide.id ? moved : g));
+  };
+
+  // Shift / Ctrl / Cmd + click toggles an object in the selection, plain click replaces it
+  const handleObjectSelect = (id: string, e: SelectEvent) => {
+      if (hasModifier(e.evt)) {
+          onSelect(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+      } else {
+          onSelect([id]);
+      }
+  };
+
+  const isEmptyTarget = (e: SelectEvent) => {
+      return e.target === e.target.getStage() || e.target.hasName('background');
+  };
+
+  // Handle outside click to deselect / start marquee, or finish editing
+  const handleStageMouseDown = (e: SelectEvent) => {
+    if (!isEmptyTarget(e)) return;
+    setEditingId(null); // Close text editor if open
+
+    const pos = stageRef.current?.getRelativePointerPosition();
+    if (pos) {
+        setSelectionRect({ x1: pos.x, y1: pos.y, x2: pos.x, y2: pos.y });
+    }
+    if (!hasModifier(e.evt)) {
+        onSelect([]);
+    }
+  };
+
+  const handleStageMouseMove = () => {
+    if (!selectionRect) return;
+    const pos = stageRef.current?.getRelativePointerPosition();
+    if (pos) {
+        setSelectionRect({ ...selectionRect, x2: pos.x, y2: pos.y });
     }
   };
 
+  const handleStageMouseUp = (e: SelectEvent) => {
+    if (!selectionRect) return;
+    setSelectionRect(null);
+
+    const stage = stageRef.current;
+    const box = {
+        x: Math.min(selectionRect.x1, selectionRect.x2),
+        y: Math.min(selectionRect.y1, selectionRect.y2),
+        width: Math.abs(selectionRect.x2 - selectionRect.x1),
+        height: Math.abs(selectionRect.y2 - selectionRect.y1),
+    };
+    // Treat a plain click on empty canvas as deselect only
+    if (!stage || box.width < 3 || box.height < 3) return;
+
+    const hits = scopeObjects
+        .filter(o => {
+            if (o.locked) return false;
+            const node = stage.findOne('#' + o.id);
+            return node && Konva.Util.haveIntersection(box, node.getClientRect({ relativeTo: stage }));
+        })
+        .map(o => o.id);
+
+    onSelect(hasModifier(e.evt) ? Array.from(new Set([...selectedIds, ...hits])) : hits);
+  };
+
   // Setup Text Area for Inline Editing when editingId is set
   useEffect(() => {
       if (editingId && textAreaRef.current) {
@@ -159,164 +812,577 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({
 
   const handleTextBlur = () => {
       // Save history on blur
-      const editingObject = objects.find(o => o.id === editingId);
+      const editingObject = scopeObjects.find(o => o.id === editingId);
       if (editingObject) {
          onChangeObject(editingObject, true);
       }
       setEditingId(null);
   };
 
-  const editingObject = objects.find(o => o.id === editingId);
+  const editingObject = scopeObjects.find(o => o.id === editingId);
+  // Text inside a group sits wherever the group puts it, so place the editor from the node itself
+  const editingNode = editingId ? stageRef.current?.findOne('#' + editingId) : undefined;
+  const editingPosition = editingNode?.getAbsolutePosition();
+  const editingRotation = editingNode ? editingNode.getAbsoluteRotation() : editingObject?.rotation;
 
-  return (
-    <div className="relative shadow-2xl overflow-hidden bg-white mx-auto" style={{ 
-        width: settings.width * scale, 
-        height: settings.height * scale,
-        transformOrigin: 'top left'
-      }}>
-      
-      <Stage
-        width={settings.width * scale}
-        height={settings.height * scale}
-        scaleX={scale}
-        scaleY={scale}
-        onMouseDown={checkDeselect}
-        onTouchStart={checkDeselect}
-        ref={stageRef}
-      >
-        <Layer>
-          {/* Background indicating paper */}
-          <Rect
-            width={settings.width}
-            height={settings.height}
-            fill="white"
-            stroke="#e5e7eb"
-            strokeWidth={1}
-          />
+  // --- Object Rendering ---
+
+  const renderObject = (source: CanvasObject, interactive: boolean): React.ReactNode => {
+    if (source.type === 'group') return renderGroup(source, interactive);
+    // Objects outside the editing scope are drawn but ignore the pointer
+    const obj = interactive ? source : { ...source, locked: true };
+
+    if (obj.type === 'image') {
+        return <CanvasImageObject key={obj.id} obj={obj} onSelect={(e) => handleObjectSelect(obj.id, e)} onChangeObject={queueChange} />
+    }
+    if (obj.type === 'barcode') {
+        return <CanvasBarcodeObject key={obj.id} obj={obj} onSelect={(e) => handleObjectSelect(obj.id, e)} onChangeObject={queueChange} />
+    }
+    if (obj.type === 'table') {
+        return <CanvasTableObject key={obj.id} obj={obj} onSelect={(e) => handleObjectSelect(obj.id, e)} onChangeObject={queueChange} />
+    }
+    if (obj.type === 'qrcode') {
+        return <CanvasQrObject key={obj.id} obj={obj} onSelect={(e) => handleObjectSelect(obj.id, e)} onChangeObject={queueChange} />
+    }
+    if (obj.type === 'shape') {
+        return <CanvasShapeObject key={obj.id} obj={obj} onSelect={(e) => handleObjectSelect(obj.id, e)} onChangeObject={queueChange} />
+    }
+
+    // Hide the Konva Text object if it's currently being edited (to show textarea instead)
+    const isEditing = editingId === obj.id;
+
+    if (isVerticalText(obj)) return renderVerticalText(obj, isEditing);
+    if (isCombText(obj)) return renderCombText(obj, isEditing);
+
+    // Fitted text arrives already broken into lines, so Konva must not wrap it again
+    const fitted = hasFitMode(obj) ? getFittedText(obj) : null;
+
+    return (
+        <Text
+        key={obj.id}
+        id={obj.id}
+        x={obj.x}
+        y={obj.y}
+        text={fitted ? fitted.lines.join('\n') : obj.text}
+        fontSize={fitted ? fitted.fontSize : obj.fontSize}
+        fontFamily={obj.fontFamily}
+        {...getKonvaTextStyle(obj)}
+        fill={getTextFill(obj)}
+        wrap={fitted ? 'none' : 'word'}
+        width={obj.width}
+        rotation={obj.rotation || 0}
+        opacity={getCanvasOpacity(obj)}
+        align={obj.align || 'left'}
+        visible={!isEditing} // Hide when editing
+        // Performance optimization
+        perfectDrawEnabled={false}
+        // Interactivity
+        draggable={!isEditing && !obj.locked}
+        listening={!obj.locked}
+        onClick={(e) => handleObjectSelect(obj.id, e)}
+        onTap={(e) => handleObjectSelect(obj.id, e)}
+        onDblClick={() => {
+            onSelect([obj.id]);
+            setEditingId(obj.id);
+        }}
+        onMouseEnter={(e) => {
+            const stage = e.target.getStage();
+            if (stage) stage.container().style.cursor = 'text';
+        }}
+        onMouseLeave={(e) => {
+            const stage = e.target.getStage();
+            if (stage) stage.container().style.cursor = 'default';
+        }}
+        onDragEnd={(e) => {
+            queueChange({
+            ...obj,
+            x: e.target.x(),
+            y: e.target.y(),
+            });
+        }}
+        onTransformEnd={(e) => {
+            const node = e.target;
+            const scaleX = node.scaleX();
+            const scaleY = node.scaleY();
+          
+            // Reset node scales immediately
+            node.scaleX(1);
+            node.scaleY(1);
+
+            const anchor = trRef.current?.getActiveAnchor();
           
-          {sortedObjects.map((obj) => {
-             if (obj.type === 'image') {
-                 return <CanvasImageObject key={obj.id} obj={obj} onSelect={() => onSelect(obj.id)} onChangeObject={onChangeObject} />
-             }
+            // If side anchor (middle-left/right), only change width (Text Reflow)
+            if (anchor === 'middle-left' || anchor === 'middle-right') {
+                 queueChange({
+                     ...obj,
+                     x: node.x(),
+                     y: node.y(),
+                     rotation: node.rotation(),
+                     width: Math.max(5, node.width() * scaleX)
+                 });
+            } else {
+                 // Corner anchor: Scale Font Size + Width
+                 const scale = Math.max(scaleX, scaleY);
+                 queueChange({
+                     ...obj,
+                     x: node.x(),
+                     y: node.y(),
+                     rotation: node.rotation(),
+                     width: node.width() * scale,
+                     height: obj.height ? obj.height * scale : obj.height,
+                     fontSize: (obj.fontSize || 16) * scale,
+                     letterSpacing: obj.letterSpacing ? obj.letterSpacing * scale : obj.letterSpacing,
+                     minFontSize: obj.minFontSize ? obj.minFontSize * scale : obj.minFontSize
+                 });
+            }
+        }}
+        />
+   );
+  };
+
+  // Vertical text is drawn glyph by glyph from the shared layout (see services/textLayout.ts)
+  const renderVerticalText = (obj: CanvasObject, isEditing: boolean): React.ReactNode => {
+    const layout = getVerticalLayout(obj);
+    return (
+        <Group
+            key={obj.id}
+            id={obj.id}
+            x={obj.x}
+            y={obj.y}
+            rotation={obj.rotation || 0}
+            opacity={getCanvasOpacity(obj)}
+            visible={!isEditing}
+            draggable={!isEditing && !obj.locked}
+            listening={!obj.locked}
+            onClick={(e) => handleObjectSelect(obj.id, e)}
+            onTap={(e) => handleObjectSelect(obj.id, e)}
+            onDblClick={() => {
+                onSelect([obj.id]);
+                setEditingId(obj.id);
+            }}
+            onMouseEnter={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'text';
+            }}
+            onMouseLeave={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'default';
+            }}
+            onDragEnd={(e) => {
+                queueChange({
+                    ...obj,
+                    x: e.target.x(),
+                    y: e.target.y(),
+                });
+            }}
+            onTransformEnd={(e) => {
+                const node = e.target;
+                const scaleX = node.scaleX();
+                const scaleY = node.scaleY();
+
+                node.scaleX(1);
+                node.scaleY(1);
+
+                const anchor = trRef.current?.getActiveAnchor() || '';
+                const base = { ...obj, x: node.x(), y: node.y(), rotation: node.rotation() };
+                if (anchor === 'middle-left' || anchor === 'middle-right') {
+                    queueChange({ ...base, width: Math.max(5, obj.width * scaleX) });
+                } else if (anchor === 'top-center' || anchor === 'bottom-center') {
+                    queueChange({ ...base, height: Math.max(5, layout.height * scaleY) });
+                } else {
+                    const scale = Math.max(scaleX, scaleY);
+                    queueChange({
+                        ...base,
+                        width: obj.width * scale,
+                        height: obj.height ? obj.height * scale : obj.height,
+                        fontSize: (obj.fontSize || 16) * scale,
+                        letterSpacing: obj.letterSpacing ? obj.letterSpacing * scale : obj.letterSpacing,
+                    });
+                }
+            }}
+        >
+            <Rect width={obj.width} height={layout.height} fill="transparent" />
+            {layout.glyphs.map((g, i) => {
+                const rotated = g.kind === 'rotated';
+                const shift = g.kind === 'corner' ? g.size * CORNER_SHIFT : 0;
+                return (
+                    <Text
+                        key={i}
+                        text={g.char}
+                        x={rotated ? g.x + g.size / 2 : g.x + shift}
+                        y={rotated ? g.y + g.size / 2 : g.y - shift}
+                        offsetX={rotated ? g.size / 2 : 0}
+                        offsetY={rotated ? g.size / 2 : 0}
+                        rotation={rotated ? 90 : 0}
+                        width={g.size}
+                        align="center"
+                        fontSize={g.size}
+                        fontFamily={obj.fontFamily}
+                        fontStyle={getKonvaFontStyle(obj)}
+                        fill={getTextFill(obj)}
+                        perfectDrawEnabled={false}
+                        listening={false}
+                    />
+                );
+            })}
+        </Group>
+    );
+  };
 
-             // Hide the Konva Text object if it's currently being edited (to show textarea instead)
-             const isEditing = editingId === obj.id;
+  // Comb text: one character centred per cell; unprinted cell outlines still show as guides
+  const renderCombText = (obj: CanvasObject, isEditing: boolean): React.ReactNode => {
+    const layout = getCombLayout(obj);
+    const pitch = obj.combPitch || DEFAULT_COMB_PITCH_MM;
+    return (
+        <Group
+            key={obj.id}
+            id={obj.id}
+            x={obj.x}
+            y={obj.y}
+            rotation={obj.rotation || 0}
+            opacity={getCanvasOpacity(obj)}
+            visible={!isEditing}
+            draggable={!isEditing && !obj.locked}
+            listening={!obj.locked}
+            onClick={(e) => handleObjectSelect(obj.id, e)}
+            onTap={(e) => handleObjectSelect(obj.id, e)}
+            onDblClick={() => {
+                onSelect([obj.id]);
+                setEditingId(obj.id);
+            }}
+            onMouseEnter={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'text';
+            }}
+            onMouseLeave={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'default';
+            }}
+            onDragEnd={(e) => {
+                queueChange({
+                    ...obj,
+                    x: e.target.x(),
+                    y: e.target.y(),
+                });
+            }}
+            onTransformEnd={(e) => {
+                const node = e.target;
+                const scaleX = node.scaleX();
+                const scaleY = node.scaleY();
 
-             return (
+                node.scaleX(1);
+                node.scaleY(1);
+
+                const anchor = trRef.current?.getActiveAnchor() || '';
+                const base = { ...obj, x: node.x(), y: node.y(), rotation: node.rotation() };
+                if (anchor === 'middle-left' || anchor === 'middle-right') {
+                    const combPitch = pitch * scaleX;
+                    queueChange({ ...base, combPitch, width: getCombLayout({ ...obj, combPitch }).width });
+                } else if (anchor === 'top-center' || anchor === 'bottom-center') {
+                    queueChange({ ...base, height: Math.max(5, layout.height * scaleY) });
+                } else {
+                    const scale = Math.max(scaleX, scaleY);
+                    const combPitch = pitch * scale;
+                    queueChange({
+                        ...base,
+                        combPitch,
+                        width: getCombLayout({ ...obj, combPitch }).width,
+                        height: obj.height ? obj.height * scale : obj.height,
+                        fontSize: (obj.fontSize || 16) * scale,
+                    });
+                }
+            }}
+        >
+            <Rect width={layout.width} height={layout.height} fill="transparent" />
+            {Array.from({ length: layout.count }, (_, i) => (
+                <Rect
+                    key={`cell-${i}`}
+                    x={i * layout.cellWidth}
+                    width={layout.cellWidth}
+                    height={layout.height}
+                    stroke={obj.combBorders ? '#000000' : '#cbd5e1'}
+                    strokeWidth={1}
+                    dash={obj.combBorders ? undefined : [3, 3]}
+                    listening={false}
+                />
+            ))}
+            {layout.cells.map((cell, i) => (
                 <Text
-                key={obj.id}
-                id={obj.id}
-                x={obj.x}
-                y={obj.y}
-                text={obj.text}
-                fontSize={obj.fontSize}
-                fontFamily={obj.fontFamily}
-                width={obj.width}
-                align={obj.align || 'left'}
-                visible={!isEditing} // Hide when editing
-                // Performance optimization
-                perfectDrawEnabled={false}
-                // Interactivity
-                draggable={!isEditing}
-                onClick={() => onSelect(obj.id)}
-                onTap={() => onSelect(obj.id)}
-                onDblClick={() => {
-                    onSelect(obj.id);
-                    setEditingId(obj.id);
-                }}
+                    key={i}
+                    text={cell.char}
+                    x={cell.x}
+                    width={layout.cellWidth}
+                    height={layout.height}
+                    align="center"
+                    verticalAlign="middle"
+                    fontSize={obj.fontSize}
+                    fontFamily={obj.fontFamily}
+                    fontStyle={getKonvaFontStyle(obj)}
+                    fill={getTextFill(obj)}
+                    perfectDrawEnabled={false}
+                    listening={false}
+                />
+            ))}
+        </Group>
+    );
+  };
+
+  // A closed group moves and scales as one unit; double-click enters it to edit its children
+  const renderGroup = (group: CanvasObject, interactive: boolean): React.ReactNode => {
+    const isActive = group.id === activeGroupId;
+    const containsActive = isActive || getAllObjects(group.children || []).some(o => o.id === activeGroupId);
+    const children = sortByStackingOrder(group.children || []).filter(o => !o.hidden);
+
+    if (containsActive) {
+        return (
+            <Group key={group.id} id={group.id} x={group.x} y={group.y} rotation={group.rotation || 0} opacity={getCanvasOpacity(group)}>
+                {children.map(child => renderObject(child, isActive))}
+                {isActive && (
+                    <Rect
+                        width={group.width}
+                        height={group.height || 0}
+                        stroke="#6366f1"
+                        strokeWidth={1 / scale}
+                        dash={[6 / scale, 4 / scale]}
+                        listening={false}
+                    />
+                )}
+            </Group>
+        );
+    }
+
+    const locked = !interactive || group.locked;
+    return (
+        <Group
+            key={group.id}
+            id={group.id}
+            x={group.x}
+            y={group.y}
+            rotation={group.rotation || 0}
+            opacity={getCanvasOpacity(group)}
+            draggable={!locked}
+            listening={!locked}
+            onClick={(e) => handleObjectSelect(group.id, e)}
+            onTap={(e) => handleObjectSelect(group.id, e)}
+            onDblClick={() => onEnterGroup(group.id)}
+            onMouseEnter={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'move';
+            }}
+            onMouseLeave={(e) => {
+                const stage = e.target.getStage();
+                if (stage) stage.container().style.cursor = 'default';
+            }}
+            onDragEnd={(e) => {
+                queueChange({
+                    ...group,
+                    x: e.target.x(),
+                    y: e.target.y(),
+                });
+            }}
+            onTransformEnd={(e) => {
+                const node = e.target;
+                const scaleX = node.scaleX();
+                const scaleY = node.scaleY();
+
+                node.scaleX(1);
+                node.scaleY(1);
+
+                queueChange({
+                    ...scaleObject(group, scaleX, scaleY),
+                    x: node.x(),
+                    y: node.y(),
+                    rotation: node.rotation(),
+                });
+            }}
+        >
+            {/* Hit area over the whole group, so gaps between children still pick it */}
+            <Rect width={group.width} height={group.height || 0} fill="transparent" />
+            {children.map(child => renderObject(child, false))}
+        </Group>
+    );
+  };
+
+  return (
+    <div
+      className="mx-auto shrink-0"
+      style={{
+        display: 'grid',
+        gridTemplateColumns: `${RULER_SIZE}px ${settings.width * scale}px`,
+        gridTemplateRows: `${RULER_SIZE}px ${settings.height * scale}px`
+      }}
+    >
+      {/* Rulers (drag out of a ruler to place a guide) */}
+      <div className="bg-gray-100 border-r border-b border-gray-300" />
+      <Ruler orientation="horizontal" length={settings.width} unit={settings.unit} scale={scale} onMouseDown={handleRulerMouseDown('horizontal')} />
+      <Ruler orientation="vertical" length={settings.height} unit={settings.unit} scale={scale} onMouseDown={handleRulerMouseDown('vertical')} />
+
+      <div ref={canvasRef} data-canvas-page className="relative shadow-2xl overflow-hidden bg-white" style={{ 
+          width: settings.width * scale, 
+          height: settings.height * scale,
+          transformOrigin: 'top left'
+        }}>
+      
+        <Stage
+          width={settings.width * scale}
+          height={settings.height * scale}
+          scaleX={scale}
+          scaleY={scale}
+          onMouseDown={handleStageMouseDown}
+          onTouchStart={handleStageMouseDown}
+          onMouseMove={handleStageMouseMove}
+          onTouchMove={handleStageMouseMove}
+          onMouseUp={handleStageMouseUp}
+          onTouchEnd={handleStageMouseUp}
+          onDragStart={handleDragStart}
+          onDragMove={handleDragMove}
+          onDragEnd={clearGuides}
+          onDblClick={(e) => { if (activeGroupId && isEmptyTarget(e)) onExitGroup(); }}
+          ref={stageRef}
+        >
+          <Layer key={fontsVersion}>
+            {/* Background indicating paper */}
+            <Rect
+              name="background"
+              width={settings.width}
+              height={settings.height}
+              fill="white"
+              stroke="#e5e7eb"
+              strokeWidth={1}
+            />
+
+            {gridLines.length > 0 && (
+              <Group listening={false}>
+                {gridLines.map((points, i) => (
+                  <Line key={i} points={points} stroke="#e5e7eb" strokeWidth={1 / scale} />
+                ))}
+              </Group>
+            )}
+          
+            {sortedObjects.map(obj => renderObject(obj, !activeGroupId))}
+
+            {/* Ruler guides: drag to move, drop outside the page or double-click to remove */}
+            {guides.map(g => (
+              <Line
+                key={g.id}
+                x={g.orientation === 'vertical' ? g.position : 0}
+                y={g.orientation === 'horizontal' ? g.position : 0}
+                points={g.orientation === 'vertical' ? [0, 0, 0, settings.height] : [0, 0, settings.width, 0]}
+                stroke="#06b6d4"
+                strokeWidth={1 / scale}
+                hitStrokeWidth={6 / scale}
+                draggable
+                dragBoundFunc={(pos) => g.orientation === 'vertical'
+                  ? { x: pos.x, y: 0 }
+                  : { x: 0, y: pos.y }}
+                onDragEnd={(e) => handleGuideDragEnd(g, e)}
+                onDblClick={() => updateGuides(guides.filter(other => other.id !== g.id))}
                 onMouseEnter={(e) => {
                     const stage = e.target.getStage();
-                    if (stage) stage.container().style.cursor = 'text';
+                    if (stage) stage.container().style.cursor = g.orientation === 'vertical' ? 'col-resize' : 'row-resize';
                 }}
                 onMouseLeave={(e) => {
                     const stage = e.target.getStage();
                     if (stage) stage.container().style.cursor = 'default';
                 }}
-                onDragEnd={(e) => {
-                    onChangeObject({
-                    ...obj,
-                    x: e.target.x(),
-                    y: e.target.y(),
-                    }, true);
-                }}
-                onTransformEnd={(e) => {
-                    const node = e.target;
-                    const scaleX = node.scaleX();
-                    const scaleY = node.scaleY();
-                    
-                    // Reset node scales immediately
-                    node.scaleX(1);
-                    node.scaleY(1);
-
-                    const anchor = trRef.current?.getActiveAnchor();
-                    
-                    // If side anchor (middle-left/right), only change width (Text Reflow)
-                    if (anchor === 'middle-left' || anchor === 'middle-right') {
-                         onChangeObject({
-                             ...obj,
-                             x: node.x(),
-                             y: node.y(),
-                             width: Math.max(5, node.width() * scaleX)
-                         }, true);
-                    } else {
-                         // Corner anchor: Scale Font Size + Width
-                         const scale = Math.max(scaleX, scaleY);
-                         onChangeObject({
-                             ...obj,
-                             x: node.x(),
-                             y: node.y(),
-                             width: node.width() * scale,
-                             fontSize: (obj.fontSize || 16) * scale
-                         }, true);
-                    }
-                }}
-                />
-            );
-          })}
-
-          <Transformer
-            ref={trRef}
-            boundBoxFunc={(oldBox, newBox) => {
-              // limit resize
-              if (newBox.width < 5 || newBox.height < 5) {
-                return oldBox;
-              }
-              return newBox;
-            }}
-          />
-        </Layer>
-      </Stage>
-
-      {/* HTML Overlay for Text Editing */}
-      {editingObject && editingId && (
-          <textarea
-            ref={textAreaRef}
-            value={editingObject.text}
-            onChange={(e) => handleTextChange(e, editingObject)}
-            onBlur={handleTextBlur}
-            style={{
-                position: 'absolute',
-                top: editingObject.y * scale,
-                left: editingObject.x * scale,
-                width: editingObject.width * scale,
-                height: (editingObject.fontSize || 16) * scale * 1.5 * (editingObject.text?.split('\n').length || 1) + 20, // Approximate height
-                fontSize: `${(editingObject.fontSize || 16) * scale}px`,
-                fontFamily: editingObject.fontFamily,
-                textAlign: editingObject.align || 'left',
-                lineHeight: 1.2,
-                color: 'black',
-                background: 'transparent', // Transparent background to look like canvas
-                border: '1px dashed #6366f1', // Dashed border to indicate editing
-                padding: '0px',
-                margin: '0px',
-                overflow: 'hidden',
-                resize: 'none',
-                outline: 'none',
-                zIndex: 100, // Above canvas
-                minHeight: '40px'
-            }}
-          />
-      )}
+              />
+            ))}
+
+            {/* Guide being dragged out of a ruler */}
+            {draftGuide && (
+              <Line
+                points={draftGuide.orientation === 'vertical'
+                  ? [draftGuide.position, 0, draftGuide.position, settings.height]
+                  : [0, draftGuide.position, settings.width, draftGuide.position]}
+                stroke="#06b6d4"
+                strokeWidth={1 / scale}
+                dash={[4 / scale, 4 / scale]}
+                listening={false}
+              />
+            )}
+
+            <Transformer
+              ref={trRef}
+              anchorDragBoundFunc={snapAnchor}
+              onTransformStart={() => { snapTargetsRef.current = computeSnapTargets(selectedIds); }}
+              onTransformEnd={clearGuides}
+              rotationSnaps={[0, 90, 180, 270]}
+              boundBoxFunc={(oldBox, newBox) => {
+                // limit resize (a line's box is only as tall as its stroke, so only block shrinking)
+                if (newBox.width < 5 || (newBox.height < 5 && newBox.height < oldBox.height)) {
+                  return oldBox;
+                }
+                return newBox;
+              }}
+            />
+
+            {/* Smart alignment guides */}
+            {smartGuides.map((g, i) => (
+              <Line
+                key={i}
+                points={g.orientation === 'vertical'
+                  ? [g.position, 0, g.position, settings.height]
+                  : [0, g.position, settings.width, g.position]}
+                stroke="#ec4899"
+                strokeWidth={1 / scale}
+                dash={[4 / scale, 4 / scale]}
+                listening={false}
+              />
+            ))}
+
+            {/* Marquee selection box */}
+            {selectionRect && (
+              <Rect
+                x={Math.min(selectionRect.x1, selectionRect.x2)}
+                y={Math.min(selectionRect.y1, selectionRect.y2)}
+                width={Math.abs(selectionRect.x2 - selectionRect.x1)}
+                height={Math.abs(selectionRect.y2 - selectionRect.y1)}
+                fill="rgba(99, 102, 241, 0.1)"
+                stroke="#6366f1"
+                strokeWidth={1 / scale}
+                dash={[4 / scale, 4 / scale]}
+                listening={false}
+              />
+            )}
+          </Layer>
+        </Stage>
+
+        {/* HTML Overlay for Text Editing */}
+        {editingObject && editingId && (
+            <textarea
+              ref={textAreaRef}
+              value={editingObject.text}
+              onChange={(e) => handleTextChange(e, editingObject)}
+              onBlur={handleTextBlur}
+              style={{
+                  position: 'absolute',
+                  top: editingPosition ? editingPosition.y : editingObject.y * scale,
+                  left: editingPosition ? editingPosition.x : editingObject.x * scale,
+                  width: editingObject.width * scale,
+                  height: isVerticalText(editingObject)
+                      ? getVerticalLayout(editingObject).height * scale + 20
+                      : (editingObject.fontSize || 16) * scale * 1.5 * (editingObject.text?.split('\n').length || 1) + 20, // Approximate height
+                  writingMode: isVerticalText(editingObject) ? 'vertical-rl' : undefined,
+                  ...getCssTextStyle({
+                      ...editingObject,
+                      fontSize: (editingObject.fontSize || 16) * scale,
+                      letterSpacing: (editingObject.letterSpacing || 0) * scale,
+                  }),
+                  transform: editingRotation ? `rotate(${editingRotation}deg)` : undefined,
+                  transformOrigin: 'top left',
+                  background: 'transparent', // Transparent background to look like canvas
+                  border: '1px dashed #6366f1', // Dashed border to indicate editing
+                  padding: '0px',
+                  margin: '0px',
+                  overflow: 'hidden',
+                  resize: 'none',
+                  outline: 'none',
+                  zIndex: 100, // Above canvas
+                  minHeight: '40px'
+              }}
+            />
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { CanvasObject, CanvasSettings } from '../types';
+import { getObjectBounds } from '../services/groups';
+import { Box } from '../services/snapping';
+import { VIEWPORT_PADDING, getVisiblePageBox, getWheelZoom } from '../services/viewport';
+import { isFormControl } from '../services/utils';
+
+interface CanvasViewportProps {
+  zoom: number;
+  onZoomChange: (zoom: number) => void;
+  settings: CanvasSettings;
+  objects: CanvasObject[]; // Top-level objects, drawn as boxes in the minimap
+  viewportRef: React.RefObject<HTMLDivElement>; // The scrolling element (fit-to-page measures it)
+  overlay?: React.ReactNode; // Stays in place while the page scrolls
+  children: React.ReactNode;
+}
+
+const MINIMAP_MAX_WIDTH = 160;
+const MINIMAP_MAX_HEIGHT = 200;
+
+// Page point under the cursor when a wheel zoom starts, kept under the cursor once the new zoom is laid out
+interface ZoomAnchor {
+  clientX: number;
+  clientY: number;
+  pageX: number;
+  pageY: number;
+}
+
+// Scrolling area around the canvas: Ctrl/Cmd+wheel zooms around the cursor, Space+drag pans,
+// and a minimap shows which part of the page is on screen once it no longer fits.
+const CanvasViewport: React.FC<CanvasViewportProps> = ({ zoom, onZoomChange, settings, objects, viewportRef, overlay, children }) => {
+  const [visibleBox, setVisibleBox] = useState<Box | null>(null); // Null while the whole page is on screen
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const zoomAnchorRef = useRef<ZoomAnchor | null>(null);
+
+  // CanvasArea marks its page element; everything here is measured against it
+  const getPageRect = () => viewportRef.current?.querySelector('[data-canvas-page]')?.getBoundingClientRect() || null;
+
+  const updateVisibleBox = useCallback(() => {
+    const viewport = viewportRef.current;
+    const page = getPageRect();
+    if (!viewport || !page) return;
+    const rect = viewport.getBoundingClientRect();
+    const box = getVisiblePageBox({
+      left: rect.left,
+      top: rect.top,
+      right: rect.left + viewport.clientWidth, // Without scrollbars
+      bottom: rect.top + viewport.clientHeight,
+    }, page, zoom);
+    const isWholePage = box.width >= settings.width - 1 && box.height >= settings.height - 1;
+    setVisibleBox(isWholePage ? null : box);
+  }, [zoom, settings.width, settings.height]);
+
+  // After a zoom is laid out, scroll so the anchored page point is back under the cursor
+  useLayoutEffect(() => {
+    const anchor = zoomAnchorRef.current;
+    zoomAnchorRef.current = null;
+    const viewport = viewportRef.current;
+    const page = getPageRect();
+    if (anchor && viewport && page) {
+      viewport.scrollLeft += page.left + anchor.pageX * zoom - anchor.clientX;
+      viewport.scrollTop += page.top + anchor.pageY * zoom - anchor.clientY;
+    }
+    updateVisibleBox();
+  }, [zoom, settings.width, settings.height]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(() => updateVisibleBox());
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, [updateVisibleBox]);
+
+  // Native listener: React's wheel handler is passive and cannot stop the browser zooming the page
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return; // Plain wheel scrolls as usual
+      e.preventDefault();
+      const page = getPageRect();
+      const next = getWheelZoom(zoom, e.deltaY);
+      if (!page || next === zoom) return;
+      zoomAnchorRef.current = {
+        clientX: e.clientX,
+        clientY: e.clientY,
+        pageX: (e.clientX - page.left) / zoom,
+        pageY: (e.clientY - page.top) / zoom,
+      };
+      onZoomChange(next);
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoom, onZoomChange]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isFormControl(e.target)) return;
+      e.preventDefault(); // Space would otherwise scroll the viewport
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // While Space is held a shield covers the canvas, so the drag pans instead of moving objects
+  const handlePanStart = (e: React.PointerEvent) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    e.preventDefault();
+    const start = { x: e.clientX, y: e.clientY, left: viewport.scrollLeft, top: viewport.scrollTop };
+    setIsPanning(true);
+    const handleMove = (ev: PointerEvent) => {
+      viewport.scrollLeft = start.left - (ev.clientX - start.x);
+      viewport.scrollTop = start.top - (ev.clientY - start.y);
+    };
+    const handleUp = () => {
+      setIsPanning(false);
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  const minimapScale = Math.min(MINIMAP_MAX_WIDTH / settings.width, MINIMAP_MAX_HEIGHT / settings.height);
+
+  // Centre the viewport on the page point under the pointer
+  const scrollToMinimapPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const viewport = viewportRef.current;
+    const page = getPageRect();
+    if (!viewport || !page) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const pageX = (e.clientX - rect.left) / minimapScale;
+    const pageY = (e.clientY - rect.top) / minimapScale;
+    const viewportRect = viewport.getBoundingClientRect();
+    viewport.scrollLeft += page.left + pageX * zoom - (viewportRect.left + viewport.clientWidth / 2);
+    viewport.scrollTop += page.top + pageY * zoom - (viewportRect.top + viewport.clientHeight / 2);
+  };
+
+  return (
+    <div className="flex-1 relative min-w-0 bg-gray-100">
+      <div ref={viewportRef} onScroll={updateVisibleBox} className="absolute inset-0 overflow-auto" style={{ padding: VIEWPORT_PADDING }}>
+        <div className="w-fit mx-auto">{children}</div>
+      </div>
+
+      {overlay}
+
+      {isSpaceHeld && (
+        <div
+          className="absolute inset-0 z-20"
+          style={{ cursor: isPanning ? 'grabbing' : 'grab' }}
+          onPointerDown={handlePanStart}
+        />
+      )}
+
+      {visibleBox && (
+        <div className="absolute bottom-3 right-3 z-10 bg-white/90 border border-gray-300 rounded shadow-lg p-1.5">
+          <div
+            className="relative bg-white border border-gray-200 cursor-pointer overflow-hidden"
+            style={{ width: settings.width * minimapScale, height: settings.height * minimapScale }}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              scrollToMinimapPoint(e);
+            }}
+            onPointerMove={(e) => {
+              if (e.currentTarget.hasPointerCapture(e.pointerId)) scrollToMinimapPoint(e);
+            }}
+            title="Click or drag to move the view"
+          >
+            {objects.filter(o => !o.hidden).map(o => {
+              const b = getObjectBounds(o);
+              return (
+                <div
+                  key={o.id}
+                  className="absolute bg-gray-300"
+                  style={{ left: b.x * minimapScale, top: b.y * minimapScale, width: Math.max(1, b.width * minimapScale), height: Math.max(1, b.height * minimapScale) }}
+                />
+              );
+            })}
+            <div
+              className="absolute border-2 border-indigo-500 bg-indigo-500/10 pointer-events-none"
+              style={{
+                left: visibleBox.x * minimapScale,
+                top: visibleBox.y * minimapScale,
+                width: visibleBox.width * minimapScale,
+                height: visibleBox.height * minimapScale,
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CanvasViewport;
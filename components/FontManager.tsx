@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Type as FontIcon, Upload, X, Plus, Library } from 'lucide-react';
+import { FontAsset } from '../types';
+import { FONT_FILE_ACCEPT, readFontFile } from '../services/fonts';
+import { deleteFontFromLibrary, getFontLibrary, saveFontToLibrary } from '../services/storageService';
+
+interface FontManagerProps {
+  fonts: FontAsset[]; // Fonts embedded in the current template
+  onChange: (fonts: FontAsset[]) => void;
+  userId: string; // Whose font library to show
+}
+
+// Upload fonts into the template, and keep a per-user library on this device to reuse them in other templates
+const FontManager: React.FC<FontManagerProps> = ({ fonts, onChange, userId }) => {
+  const [library, setLibrary] = useState<FontAsset[]>([]);
+  const [saveToLibrary, setSaveToLibrary] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getFontLibrary(userId).then(setLibrary);
+  }, [userId]);
+
+  // One face per family: a new upload with the same name replaces the old one
+  const addFont = (font: FontAsset) => {
+    onChange([...fonts.filter(f => f.family !== font.family), font]);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = ''; // Reset
+    if (!file) return;
+    setError(null);
+    try {
+      const font = await readFontFile(file);
+      addFont(font);
+      if (saveToLibrary) {
+        const saved = await saveFontToLibrary(font, userId);
+        if (!saved) setError('Added to this template, but the font library is full.');
+        setLibrary(await getFontLibrary(userId));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add font.');
+    }
+  };
+
+  const handleDeleteFromLibrary = async (id: string) => {
+    setError(null);
+    const deleted = await deleteFontFromLibrary(id, userId);
+    if (!deleted) setError('Could not remove the font from the library.');
+    setLibrary(await getFontLibrary(userId));
+  };
+
+  const available = library.filter(l => !fonts.some(f => f.family === l.family));
+
+  return (
+    <div className="pt-4 border-t border-gray-100 space-y-3">
+      <div className="flex items-center gap-2 text-gray-800 font-medium">
+        <FontIcon size={18} />
+        <h3>Fonts</h3>
+      </div>
+
+      {fonts.length === 0 && (
+        <p className="text-xs text-gray-400">No custom fonts in this template.</p>
+      )}
+      {fonts.map(f => (
+        <div key={f.id} className="flex items-center justify-between text-sm bg-gray-50 border border-gray-200 rounded px-2 py-1.5">
+          <span className="truncate" style={{ fontFamily: f.family }} title={f.fileName}>{f.family}</span>
+          <button
+            onClick={() => onChange(fonts.filter(other => other.id !== f.id))}
+            className="text-gray-400 hover:text-red-500 p-0.5"
+            title="Remove from template (objects fall back to the default font)"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-md border border-dashed border-gray-300 text-sm text-gray-600 hover:bg-gray-50"
+      >
+        <Upload size={14} /> Upload TTF / OTF / WOFF
+      </button>
+      <input ref={fileInputRef} type="file" accept={FONT_FILE_ACCEPT} className="hidden" onChange={handleFileChange} />
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={saveToLibrary}
+          onChange={(e) => setSaveToLibrary(e.target.checked)}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        Also keep in my font library
+      </label>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {available.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-500 flex items-center gap-1"><Library size={12} /> Font Library</p>
+          {available.map(f => (
+            <div key={f.id} className="flex items-center justify-between text-sm px-2 py-1 rounded hover:bg-gray-50">
+              <span className="truncate text-gray-700" title={f.fileName}>{f.family}</span>
+              <div className="flex items-center">
+                <button onClick={() => addFont(f)} className="text-indigo-600 hover:bg-indigo-50 p-0.5 rounded" title="Use in this template">
+                  <Plus size={14} />
+                </button>
+                <button onClick={() => handleDeleteFromLibrary(f.id)} className="text-gray-400 hover:text-red-500 p-0.5" title="Delete from library">
+                  <X size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FontManager;
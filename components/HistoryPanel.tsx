@@ -0,0 +1,53 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { HistoryState } from '../services/history';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onJump: (index: number) => void; // Number of steps to have applied
+  onClose: () => void;
+}
+
+// Every undo step with its label; click one to go back (or forward) to just after it
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onClose }) => {
+  const rows = [
+    { index: 0, label: history.dropped ? 'Earliest kept state' : 'Opened template', time: null as number | null },
+    ...history.entries.map((entry, i) => ({ index: i + 1, label: entry.label, time: entry.time as number | null })),
+  ];
+
+  return (
+    <div className="absolute top-full left-0 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-xl z-50">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+        <span className="flex items-center gap-2 text-sm font-medium text-gray-800">
+          <History size={14} /> Edit History
+        </span>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="max-h-80 overflow-y-auto py-1">
+        {/* Newest first */}
+        {rows.slice().reverse().map(row => {
+          const isCurrent = row.index === history.index;
+          const isUndone = row.index > history.index;
+          return (
+            <button
+              key={row.index}
+              onClick={() => onJump(row.index)}
+              className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-xs ${isCurrent ? 'bg-indigo-50 text-indigo-700 font-medium' : isUndone ? 'text-gray-400 hover:bg-gray-50' : 'text-gray-700 hover:bg-gray-50'}`}
+            >
+              <span className="truncate">{row.label}</span>
+              {row.time !== null && (
+                <span className="shrink-0 text-[10px] text-gray-400">
+                  {new Date(row.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { CanvasObject } from '../types';
+import { Eye, EyeOff, Lock, Unlock, Type, Image as ImageIcon, ChevronUp, ChevronDown, ChevronsUp, ChevronsDown, Layers, Shapes, Barcode, QrCode, Table, Group, ArrowLeft } from 'lucide-react';
+import { ReorderAction, getObjectLabel, sortByStackingOrder } from '../services/layers';
+
+interface LayersPanelProps {
+  objects: CanvasObject[];
+  selectedIds: string[];
+  onSelect: (ids: string[]) => void;
+  onUpdateObject: (obj: CanvasObject, recordHistory?: boolean) => void;
+  onReorder: (action: ReorderAction) => void;
+  groupPath: CanvasObject[]; // Entered groups, outermost first; `objects` are the innermost one's children
+  onEnterGroup: (groupId: string) => void;
+  onExitGroup: () => void;
+}
+
+const LAYER_ICONS: Record<CanvasObject['type'], React.ReactNode> = {
+  text: <Type size={14} />,
+  image: <ImageIcon size={14} />,
+  shape: <Shapes size={14} />,
+  barcode: <Barcode size={14} />,
+  qrcode: <QrCode size={14} />,
+  table: <Table size={14} />,
+  group: <Group size={14} />,
+};
+
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  objects,
+  selectedIds,
+  onSelect,
+  onUpdateObject,
+  onReorder,
+  groupPath,
+  onEnterGroup,
+  onExitGroup
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  // Top-most layer first, like most design tools
+  const layers = sortByStackingOrder(objects).reverse();
+  const hasSelection = selectedIds.length > 0;
+
+  const handleRowClick = (id: string, e: React.MouseEvent) => {
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      onSelect(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+    } else {
+      onSelect([id]);
+    }
+  };
+
+  const startRename = (obj: CanvasObject) => {
+    setRenamingId(obj.id);
+    setRenameValue(obj.name || getObjectLabel(obj));
+  };
+
+  const commitRename = (obj: CanvasObject) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (name !== (obj.name || '')) {
+      onUpdateObject({ ...obj, name: name || undefined });
+    }
+  };
+
+  const reorderButtons: { action: ReorderAction; title: string; icon: React.ReactNode }[] = [
+    { action: 'front', title: 'Bring to Front (Ctrl+Shift+])', icon: <ChevronsUp size={16} /> },
+    { action: 'forward', title: 'Bring Forward (Ctrl+])', icon: <ChevronUp size={16} /> },
+    { action: 'backward', title: 'Send Backward (Ctrl+[)', icon: <ChevronDown size={16} /> },
+    { action: 'back', title: 'Send to Back (Ctrl+Shift+[)', icon: <ChevronsDown size={16} /> },
+  ];
+
+  return (
+    <div className="w-64 bg-white border-l border-gray-200 flex flex-col h-full no-print">
+      <div className="p-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-700 uppercase tracking-wider flex items-center gap-2">
+          <Layers size={16} /> Layers
+        </h2>
+        <div className="flex">
+          {reorderButtons.map(b => (
+            <button
+              key={b.action}
+              onClick={() => onReorder(b.action)}
+              disabled={!hasSelection}
+              title={b.title}
+              className={`p-1 rounded ${hasSelection ? 'text-gray-600 hover:bg-gray-200' : 'text-gray-300 cursor-not-allowed'}`}
+            >
+              {b.icon}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {groupPath.length > 0 && (
+        <button
+          onClick={onExitGroup}
+          className="flex items-center gap-2 px-3 py-2 border-b border-gray-200 bg-indigo-50 text-indigo-700 text-xs font-medium hover:bg-indigo-100 text-left"
+          title="Exit group (Esc)"
+        >
+          <ArrowLeft size={14} className="shrink-0" />
+          <span className="truncate">{groupPath.map(g => getObjectLabel(g)).join(' › ')}</span>
+        </button>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {layers.length === 0 && (
+          <p className="text-center text-gray-400 text-sm mt-10">No objects yet.</p>
+        )}
+        {layers.map(obj => {
+          const isSelected = selectedIds.includes(obj.id);
+          return (
+            <div
+              key={obj.id}
+              onClick={(e) => handleRowClick(obj.id, e)}
+              onDoubleClick={() => startRename(obj)}
+              className={`flex items-center gap-2 px-3 py-2 border-b border-gray-100 cursor-pointer text-sm ${isSelected ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700 hover:bg-gray-50'} ${obj.hidden ? 'opacity-50' : ''}`}
+            >
+              <span className="text-gray-400 shrink-0">
+                {LAYER_ICONS[obj.type]}
+              </span>
+              {renamingId === obj.id ? (
+                <input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={() => commitRename(obj)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(obj);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="flex-1 min-w-0 border border-indigo-300 rounded px-1 text-sm"
+                />
+              ) : (
+                <span className="flex-1 min-w-0 truncate" title="Double-click to rename">{getObjectLabel(obj)}</span>
+              )}
+              {obj.type === 'group' && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onEnterGroup(obj.id); }}
+                  className="text-[10px] text-gray-400 hover:text-indigo-600 px-1"
+                  title="Edit group contents"
+                >
+                  {obj.children?.length || 0}
+                </button>
+              )}
+              {obj.designOnly && (
+                <span className="text-[9px] font-semibold uppercase text-sky-600 bg-sky-50 border border-sky-200 rounded px-1" title="Design only: not printed">Ref</span>
+              )}
+              <button
+                onClick={(e) => { e.stopPropagation(); onUpdateObject({ ...obj, hidden: !obj.hidden }); }}
+                className="p-0.5 text-gray-400 hover:text-gray-700"
+                title={obj.hidden ? 'Show' : 'Hide'}
+              >
+                {obj.hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onUpdateObject({ ...obj, locked: !obj.locked }); }}
+                className={`p-0.5 hover:text-gray-700 ${obj.locked ? 'text-amber-500' : 'text-gray-400'}`}
+                title={obj.locked ? 'Unlock' : 'Lock'}
+              >
+                {obj.locked ? <Lock size={14} /> : <Unlock size={14} />}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LayersPanel;
@@ -1,10 +1,19 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { X, Printer, History, RotateCcw, Eye, FileDown, Loader2 } from 'lucide-react';
+import { X, Printer, History, RotateCcw, Eye, FileDown, Loader2, AlertTriangle } from 'lucide-react';
 import { CanvasObject, PrintRecord, UserProfile, CanvasSettings, LogicType } from '../types';
 import { getPrintHistory, savePrintRecord, getClients } from '../services/storageService';
 import PrintView from './PrintView';
+import TableValueEditor from './TableValueEditor';
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
+import { getBarcodeLayout } from '../services/barcode';
+import { getQrLayout } from '../services/qrcode';
+import { DEFAULT_MAX_ROWS } from '../services/table';
+import { getPrintableObjects } from '../services/layers';
+import { flattenObjects, getObjectBounds } from '../services/groups';
+import { getPreflightIssues } from '../services/preflight';
+import { waitForFonts } from '../services/fonts';
+import { getTemplateVariables, pxToUnit } from '../services/utils';
 
 interface PrintModalProps {
     isOpen: boolean;
@@ -18,6 +27,44 @@ interface PrintModalProps {
     initialTab?: 'form' | 'history';
 }
 
+// Print variables an object needs: its variable key, or the placeholders in a QR payload template
+const getObjectVariables = (obj: CanvasObject): string[] => {
+    if (obj.type === 'qrcode') return getTemplateVariables(obj.rawValue || '');
+    return obj.variableKey && obj.variableKey.trim() !== '' ? [obj.variableKey] : [];
+};
+
+// Redraw unrotated barcodes and QR codes as vector rectangles so they scan reliably from the PDF.
+// They are left out of the raster capture (see data-pdf-vector in PrintView).
+const drawVectorCodes = (pdf: jsPDF, allObjects: CanvasObject[], unit: CanvasSettings['unit']) => {
+    const u = (px: number) => pxToUnit(px, unit);
+    const objects = getPrintableObjects(flattenObjects(allObjects));
+    objects
+        .filter(o => o.type === 'qrcode' && !o.rotation)
+        .forEach(obj => {
+            const layout = getQrLayout(obj);
+            if (layout.error) return;
+            pdf.setFillColor(0, 0, 0);
+            layout.runs.forEach(run => {
+                pdf.rect(u(obj.x + run.x), u(obj.y + run.y), u(run.width), u(layout.moduleSize), 'F');
+            });
+        });
+    objects
+        .filter(o => o.type === 'barcode' && !o.rotation)
+        .forEach(obj => {
+            const layout = getBarcodeLayout(obj);
+            if (layout.error) return;
+            pdf.setFillColor(0, 0, 0);
+            layout.bars.forEach(bar => {
+                pdf.rect(u(obj.x + bar.x), u(obj.y), u(bar.width), u(layout.barHeight), 'F');
+            });
+            if (layout.textSize > 0) {
+                pdf.setTextColor(0, 0, 0);
+                pdf.setFontSize(layout.textSize * 0.75); // px to pt
+                pdf.text(layout.text, u(obj.x + layout.width / 2), u(obj.y + layout.barHeight + layout.textSize * 0.2), { align: 'center', baseline: 'top' });
+            }
+        });
+};
+
 const PrintModal: React.FC<PrintModalProps> = ({ isOpen, onClose, objects, settings, onPrint, onValuesChange, templateId, user, initialTab = 'form' }) => {
     const [variables, setVariables] = useState<string[]>([]);
     const [values, setValues] = useState<Record<string, string>>({});
@@ -35,17 +82,17 @@ const PrintModal: React.FC<PrintModalProps> = ({ isOpen, onClose, objects, setti
         }
     }, [isOpen, initialTab]);
 
+    // Grouped objects need values just like top-level ones
+    const leafObjects = useMemo(() => flattenObjects(objects), [objects]);
+
     // Extract variables whenever objects change (structural change only)
-    const variableKeysHash = JSON.stringify(objects.map(o => o.variableKey).filter(k => k));
+    const variableKeysHash = JSON.stringify(getPrintableObjects(leafObjects).flatMap(getObjectVariables));
     
     useEffect(() => {
         if (!isOpen) return;
 
-        const uniqueVars: string[] = Array.from(new Set(
-            objects
-                .filter(o => o.variableKey && o.variableKey.trim() !== '')
-                .map(o => o.variableKey as string)
-        ));
+        // Objects that will not print do not need values
+        const uniqueVars: string[] = Array.from(new Set(getPrintableObjects(leafObjects).flatMap(getObjectVariables)));
         
         setVariables(uniqueVars);
         
@@ -93,13 +140,29 @@ const PrintModal: React.FC<PrintModalProps> = ({ isOpen, onClose, objects, setti
         getPrintHistory(templateId).then(setHistory);
     };
 
+    // Values that spill past their box or objects off the page: the user decides whether to go ahead
+    const preflightIssues = useMemo(() => isOpen ? getPreflightIssues(objects, settings) : [], [isOpen, objects, settings]);
+    const issueBounds = useMemo(() => {
+        const ids = new Set(preflightIssues.map(i => i.objectId));
+        return leafObjects.filter(o => ids.has(o.id)).map(o => ({ id: o.id, ...getObjectBounds(o) }));
+    }, [preflightIssues, leafObjects]);
+
+    const confirmIssues = (action: string) => {
+        if (preflightIssues.length === 0) return true;
+        const list = preflightIssues.slice(0, 8).map(i => `• ${i.message}`).join('\n');
+        const more = preflightIssues.length > 8 ? `\n…and ${preflightIssues.length - 8} more` : '';
+        return window.confirm(`Some fields will not print correctly:\n\n${list}${more}\n\n${action} anyway?`);
+    };
+
     const handleSubmit = async () => {
+        if (!confirmIssues('Print')) return;
         await recordAction();
         onPrint(values);
     };
 
     const handleDownloadPDF = async () => {
         if (isPdfLoading) return;
+        if (!confirmIssues('Export the PDF')) return;
         setIsPdfLoading(true);
 
         try {
@@ -107,12 +170,16 @@ const PrintModal: React.FC<PrintModalProps> = ({ isOpen, onClose, objects, setti
             const input = document.getElementById('pdf-generation-container');
             if (!input) throw new Error("Preview element not found");
 
+            // Text captured in a fallback font cannot be fixed afterwards
+            await waitForFonts(settings.fonts);
+
             // Capture the element as an image
             const canvas = await html2canvas(input, {
                 scale: 2, // 2x scale for better resolution
                 useCORS: true, // Handle cross-origin images
                 logging: false,
-                backgroundColor: '#ffffff'
+                backgroundColor: '#ffffff',
+                ignoreElements: (el: Element) => el.hasAttribute('data-pdf-vector')
             });
 
             const imgData = canvas.toDataURL('image/png');
@@ -131,6 +198,7 @@ const PrintModal: React.FC<PrintModalProps> = ({ isOpen, onClose, objects, setti
             // Add the captured image to the PDF
             // (imgData, format, x, y, width, height)
             pdf.addImage(imgData, 'PNG', 0, 0, settings.widthUnit, settings.heightUnit);
+            drawVectorCodes(pdf, objects, unit);
 
             // Save
             const filename = `NexusPrint_${templateId}_${Date.now()}.pdf`;
@@ -149,7 +217,12 @@ const PrintModal: React.FC<PrintModalProps> = ({ isOpen, onClose, objects, setti
     
     // Helper to check if a variable key corresponds to a CUSTOMER_NAME logic type
     const isClientField = (key: string) => {
-        return objects.some(o => o.variableKey === key && o.logicType === LogicType.CUSTOMER_NAME);
+        return leafObjects.some(o => o.variableKey === key && o.logicType === LogicType.CUSTOMER_NAME);
+    };
+
+    // List variables feeding a line-item table are entered as a grid
+    const getTableForKey = (key: string) => {
+        return leafObjects.find(o => o.type === 'table' && o.variableKey === key);
     };
 
     // Calculate preview scale to fit in the right column
@@ -194,28 +267,40 @@ const PrintModal: React.FC<PrintModalProps> = ({ isOpen, onClose, objects, setti
                                 </div>
                                 {variables.length > 0 ? (
                                     <form className="space-y-4">
-                                        {variables.map(key => (
-                                            <div key={key}>
-                                                <label className="block text-xs font-semibold text-gray-700 mb-1 capitalize">
-                                                    {key.replace(/_/g, ' ')}
-                                                </label>
-                                                <input
-                                                    type="text"
-                                                    value={values[key] || ''}
-                                                    onChange={(e) => handleChange(key, e.target.value)}
-                                                    list={isClientField(key) ? `print-client-list-${key}` : undefined}
-                                                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2.5"
-                                                    placeholder={`Enter ${key}...`}
-                                                />
-                                                {isClientField(key) && (
-                                                    <datalist id={`print-client-list-${key}`}>
-                                                        {clients.map((name, i) => (
-                                                            <option key={i} value={name} />
-                                                        ))}
-                                                    </datalist>
-                                                )}
-                                            </div>
-                                        ))}
+                                        {variables.map(key => {
+                                            const table = getTableForKey(key);
+                                            return (
+                                                <div key={key}>
+                                                    <label className="block text-xs font-semibold text-gray-700 mb-1 capitalize">
+                                                        {key.replace(/_/g, ' ')}
+                                                    </label>
+                                                    {table ? (
+                                                        <TableValueEditor
+                                                            columns={table.columns || []}
+                                                            maxRows={table.maxRows || DEFAULT_MAX_ROWS}
+                                                            value={values[key] || ''}
+                                                            onChange={(v) => handleChange(key, v)}
+                                                        />
+                                                    ) : (
+                                                        <input
+                                                            type="text"
+                                                            value={values[key] || ''}
+                                                            onChange={(e) => handleChange(key, e.target.value)}
+                                                            list={isClientField(key) ? `print-client-list-${key}` : undefined}
+                                                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2.5"
+                                                            placeholder={`Enter ${key}...`}
+                                                        />
+                                                    )}
+                                                    {isClientField(key) && (
+                                                        <datalist id={`print-client-list-${key}`}>
+                                                            {clients.map((name, i) => (
+                                                                <option key={i} value={name} />
+                                                            ))}
+                                                        </datalist>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
                                     </form>
                                 ) : (
                                     <div className="text-center py-10 text-gray-400 bg-white rounded border border-dashed">
@@ -265,7 +350,7 @@ const PrintModal: React.FC<PrintModalProps> = ({ isOpen, onClose, objects, setti
                     <div className="flex-1 overflow-auto p-8 flex items-center justify-center bg-gray-200/50">
                         {/* Visual Preview (Scaled) */}
                         <div 
-                            className="bg-white shadow-2xl transition-all duration-300 ease-in-out"
+                            className="relative bg-white shadow-2xl transition-all duration-300 ease-in-out"
                             style={{
                                 width: settings.width,
                                 height: settings.height,
@@ -275,6 +360,14 @@ const PrintModal: React.FC<PrintModalProps> = ({ isOpen, onClose, objects, setti
                             }}
                         >
                             <PrintView objects={objects} settings={settings} />
+                            {/* Preflight highlights; preview only, so they never reach the print or PDF */}
+                            {issueBounds.map(b => (
+                                <div
+                                    key={b.id}
+                                    className="absolute pointer-events-none border-2 border-dashed border-red-500 bg-red-500/10"
+                                    style={{ left: b.x, top: b.y, width: b.width, height: Math.max(b.height, 1) }}
+                                />
+                            ))}
                         </div>
 
                         {/* Hidden Off-Screen Container for PDF Generation (Full Scale) */}
@@ -285,6 +378,20 @@ const PrintModal: React.FC<PrintModalProps> = ({ isOpen, onClose, objects, setti
                         </div>
                     </div>
 
+                    {preflightIssues.length > 0 && (
+                        <div className="px-4 py-2 border-t border-amber-200 bg-amber-50 text-amber-800 text-xs max-h-28 overflow-y-auto shrink-0">
+                            <p className="font-semibold flex items-center gap-1.5 mb-1">
+                                <AlertTriangle size={14} />
+                                {preflightIssues.length} problem{preflightIssues.length > 1 ? 's' : ''} found (outlined in red)
+                            </p>
+                            <ul className="space-y-0.5">
+                                {preflightIssues.map((issue, i) => (
+                                    <li key={i}>{issue.message}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
                     <div className="p-4 border-t border-gray-200 bg-white flex justify-end gap-3 z-10 shrink-0">
                         <button 
                             onClick={onClose}
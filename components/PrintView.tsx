@@ -1,18 +1,322 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { CanvasObject, CanvasSettings } from '../types';
+import { getPrintableObjects, sortByStackingOrder } from '../services/layers';
+import { flattenObjects } from '../services/groups';
+import { getShapeStroke } from '../services/shapes';
+import { getBarcodeLayout } from '../services/barcode';
+import { getQrLayout } from '../services/qrcode';
+import { getTableLayout } from '../services/table';
+import { getCssTextStyle, getCssVerticalAlign } from '../services/textStyle';
+import { getFontFaceCss } from '../services/fonts';
+import { getAdjustedImageSrc } from '../services/imageFilters';
+import { CORNER_SHIFT, getCombLayout, getFittedText, getVerticalLayout, hasFitMode, isCombText, isVerticalText } from '../services/textLayout';
 
 interface PrintViewProps {
   objects: CanvasObject[];
   settings: CanvasSettings;
 }
 
+// Konva rotates around the object's top-left corner; mirror that so print/PDF match the editor
+const getRotationStyle = (obj: CanvasObject): React.CSSProperties => {
+  if (!obj.rotation) return {};
+  return { transform: `rotate(${obj.rotation}deg)`, transformOrigin: 'top left' };
+};
+
+// Adjusted images are rendered to a data URL first; html2canvas captures the result for the PDF
+const PrintImage: React.FC<{ obj: CanvasObject }> = ({ obj }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAdjustedImageSrc(obj).then(result => {
+      if (!cancelled) setSrc(result);
+    }).catch(() => {
+      if (!cancelled) setSrc(obj.src || null); // Unadjusted rather than missing
+    });
+    return () => { cancelled = true; };
+  }, [obj.src, JSON.stringify(obj.imageCrop), obj.imageRotation, obj.brightness, obj.contrast, obj.grayscale, obj.threshold, obj.transparentWhite]);
+
+  if (!src) return null;
+  return (
+    <img
+      src={src}
+      style={{
+          position: 'absolute',
+          left: `${obj.x}px`,
+          top: `${obj.y}px`,
+          width: `${obj.width}px`,
+          height: `${obj.height}px`,
+          opacity: obj.opacity ?? 1,
+          ...getRotationStyle(obj)
+      }}
+      alt=""
+    />
+  );
+};
+
+// Shapes render as SVG in the same local coordinates as the Konva shapes (origin at x, y)
+const renderShape = (obj: CanvasObject) => {
+  const { stroke, strokeWidth, dash, fill } = getShapeStroke(obj);
+  const width = obj.width;
+  const height = obj.shapeKind === 'line' ? 0 : obj.height || 0;
+  const strokeProps = {
+    stroke,
+    strokeWidth,
+    strokeDasharray: dash.length ? dash.join(' ') : undefined,
+    fill: fill || 'none',
+  };
+
+  let shape: React.ReactNode;
+  switch (obj.shapeKind) {
+    case 'line':
+      shape = <line x1={0} y1={0} x2={width} y2={0} {...strokeProps} />;
+      break;
+    case 'ellipse':
+      shape = <ellipse cx={width / 2} cy={height / 2} rx={width / 2} ry={height / 2} {...strokeProps} />;
+      break;
+    default: {
+      const r = obj.shapeKind === 'roundedRect' ? obj.cornerRadius || 0 : 0;
+      shape = <rect x={0} y={0} width={width} height={height} rx={r} ry={r} {...strokeProps} />;
+    }
+  }
+
+  return (
+    <svg
+      key={obj.id}
+      width={width}
+      height={Math.max(height, 1)}
+      style={{
+        position: 'absolute',
+        left: `${obj.x}px`,
+        top: `${obj.y}px`,
+        overflow: 'visible', // Strokes are centered on the edge and may extend past the box
+        opacity: obj.opacity ?? 1,
+        ...getRotationStyle(obj)
+      }}
+    >
+      {shape}
+    </svg>
+  );
+};
+
+// Barcodes render as SVG rects. Unrotated ones are tagged so the PDF export can redraw them as vectors.
+const renderBarcode = (obj: CanvasObject) => {
+  const layout = getBarcodeLayout(obj);
+  if (layout.error) return null; // Never print an unreadable barcode
+  const height = obj.height || 60;
+
+  return (
+    <svg
+      key={obj.id}
+      width={layout.width}
+      height={height}
+      shapeRendering="crispEdges"
+      data-pdf-vector={obj.rotation ? undefined : 'barcode'}
+      style={{
+        position: 'absolute',
+        left: `${obj.x}px`,
+        top: `${obj.y}px`,
+        overflow: 'visible',
+        opacity: obj.opacity ?? 1,
+        ...getRotationStyle(obj)
+      }}
+    >
+      {layout.bars.map((bar, i) => (
+        <rect key={i} x={bar.x} y={0} width={bar.width} height={layout.barHeight} fill="#000000" />
+      ))}
+      {layout.textSize > 0 && (
+        <text
+          x={layout.width / 2}
+          y={layout.barHeight + layout.textSize * 0.2}
+          dominantBaseline="hanging"
+          textAnchor="middle"
+          fontSize={layout.textSize}
+          fontFamily={obj.fontFamily || 'Arial'}
+          fill="#000000"
+        >
+          {layout.text}
+        </text>
+      )}
+    </svg>
+  );
+};
+
+// QR codes render as one SVG path of module runs; tagged for vector PDF output like barcodes.
+const renderQrCode = (obj: CanvasObject) => {
+  const layout = getQrLayout(obj);
+  if (layout.error) return null;
+  const m = layout.moduleSize;
+  const path = layout.runs.map(r => `M${r.x} ${r.y}h${r.width}v${m}h${-r.width}z`).join('');
+
+  return (
+    <svg
+      key={obj.id}
+      width={layout.size}
+      height={layout.size}
+      shapeRendering="crispEdges"
+      data-pdf-vector={obj.rotation ? undefined : 'qrcode'}
+      style={{
+        position: 'absolute',
+        left: `${obj.x}px`,
+        top: `${obj.y}px`,
+        opacity: obj.opacity ?? 1,
+        ...getRotationStyle(obj)
+      }}
+    >
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+// Tables: rules as SVG lines, cells as clipped single-line text
+const renderTable = (obj: CanvasObject) => {
+  const layout = getTableLayout(obj);
+  const fontSize = obj.fontSize || 12;
+
+  return (
+    <div
+      key={obj.id}
+      style={{
+        position: 'absolute',
+        left: `${obj.x}px`,
+        top: `${obj.y}px`,
+        width: `${layout.width}px`,
+        height: `${layout.height}px`,
+        opacity: obj.opacity ?? 1,
+        ...getRotationStyle(obj)
+      }}
+    >
+      {obj.showBorders !== false && (
+        <svg width={layout.width} height={layout.height} style={{ position: 'absolute', left: 0, top: 0, overflow: 'visible' }}>
+          <rect x={0} y={0} width={layout.width} height={layout.height} fill="none" stroke="#000000" strokeWidth={1} />
+          {layout.rowLines.map((y, i) => (
+            <line key={`r${i}`} x1={0} y1={y} x2={layout.width} y2={y} stroke="#000000" strokeWidth={1} />
+          ))}
+          {layout.columns.slice(1).map(c => (
+            <line key={c.column.id} x1={c.x} y1={0} x2={c.x} y2={layout.height} stroke="#000000" strokeWidth={1} />
+          ))}
+        </svg>
+      )}
+      {layout.cells.map((cell, i) => (
+        <div
+          key={i}
+          style={{
+            position: 'absolute',
+            left: `${cell.x}px`,
+            top: `${cell.y}px`,
+            width: `${cell.width}px`,
+            fontSize: `${fontSize}px`,
+            fontFamily: obj.fontFamily || 'Arial',
+            fontWeight: cell.header ? 'bold' : 'normal',
+            textAlign: cell.align,
+            lineHeight: 1,
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            color: '#000000'
+          }}
+        >
+          {cell.text}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Vertical text uses the same glyph layout as the editor rather than CSS writing-mode,
+// whose column breaks and punctuation placement differ between browsers
+const renderVerticalText = (obj: CanvasObject) => {
+  const layout = getVerticalLayout(obj);
+  const { textDecoration, letterSpacing, lineHeight, textAlign, ...glyphStyle } = getCssTextStyle(obj);
+  return (
+    <div
+      key={obj.id}
+      style={{
+        position: 'absolute',
+        left: `${obj.x}px`,
+        top: `${obj.y}px`,
+        width: `${obj.width}px`,
+        height: `${layout.height}px`,
+        pointerEvents: 'none',
+        ...getRotationStyle(obj)
+      }}
+    >
+      {layout.glyphs.map((g, i) => (
+        <span
+          key={i}
+          style={{
+            ...glyphStyle,
+            position: 'absolute',
+            left: `${g.x}px`,
+            top: `${g.y}px`,
+            width: `${g.size}px`,
+            height: `${g.size}px`,
+            lineHeight: `${g.size}px`,
+            textAlign: 'center',
+            whiteSpace: 'pre',
+            transform: g.kind === 'rotated'
+              ? 'rotate(90deg)'
+              : g.kind === 'corner' ? `translate(${CORNER_SHIFT * 100}%, ${-CORNER_SHIFT * 100}%)` : undefined
+          }}
+        >
+          {g.char}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+// Comb text: one character centred per cell. Cell outlines are SVG so strokes sit on the
+// cell edges exactly as in the editor, and only print when the template asks for them.
+const renderCombText = (obj: CanvasObject) => {
+  const layout = getCombLayout(obj);
+  const { textDecoration, letterSpacing, lineHeight, textAlign, ...charStyle } = getCssTextStyle(obj);
+  return (
+    <div
+      key={obj.id}
+      style={{
+        position: 'absolute',
+        left: `${obj.x}px`,
+        top: `${obj.y}px`,
+        width: `${layout.width}px`,
+        height: `${layout.height}px`,
+        pointerEvents: 'none',
+        ...getRotationStyle(obj)
+      }}
+    >
+      {obj.combBorders && (
+        <svg width={layout.width} height={layout.height} style={{ position: 'absolute', left: 0, top: 0, overflow: 'visible' }}>
+          {Array.from({ length: layout.count }, (_, i) => (
+            <rect key={i} x={i * layout.cellWidth} y={0} width={layout.cellWidth} height={layout.height} stroke="#000000" strokeWidth={1} fill="none" />
+          ))}
+        </svg>
+      )}
+      {layout.cells.map((cell, i) => (
+        <span
+          key={i}
+          style={{
+            ...charStyle,
+            position: 'absolute',
+            left: `${cell.x}px`,
+            top: 0,
+            width: `${layout.cellWidth}px`,
+            height: `${layout.height}px`,
+            lineHeight: `${layout.height}px`,
+            textAlign: 'center',
+            whiteSpace: 'pre',
+          }}
+        >
+          {cell.char}
+        </span>
+      ))}
+    </div>
+  );
+};
+
 const PrintView: React.FC<PrintViewProps> = ({ objects, settings }) => {
-  // Sort for print view as well to ensure background images are behind text
-  const sortedObjects = [...objects].sort((a, b) => {
-    if (a.type === 'image' && b.type !== 'image') return -1;
-    if (a.type !== 'image' && b.type === 'image') return 1;
-    return 0; 
-  });
+  // Paint in the same stacking order as the editor
+  // Groups only organise the design; print their children in page coordinates
+  const sortedObjects = sortByStackingOrder(getPrintableObjects(flattenObjects(objects)));
 
   return (
     <div style={{ width: '100%', height: '100%' }}>
@@ -25,26 +329,24 @@ const PrintView: React.FC<PrintViewProps> = ({ objects, settings }) => {
           backgroundColor: 'white'
         }}
       >
+        {/* Uploaded fonts as @font-face rules, which html2canvas copies into its capture document */}
+        {settings.fonts && settings.fonts.length > 0 && <style>{getFontFaceCss(settings.fonts)}</style>}
         {sortedObjects.map((obj) => {
+          if (obj.type === 'shape') return renderShape(obj);
+          if (obj.type === 'barcode') return renderBarcode(obj);
+          if (obj.type === 'qrcode') return renderQrCode(obj);
+          if (obj.type === 'table') return renderTable(obj);
+          if (isVerticalText(obj)) return renderVerticalText(obj);
+          if (isCombText(obj)) return renderCombText(obj);
+
           if (obj.type === 'image' && obj.src) {
-              return (
-                  <img 
-                    key={obj.id}
-                    src={obj.src}
-                    style={{
-                        position: 'absolute',
-                        left: `${obj.x}px`,
-                        top: `${obj.y}px`,
-                        width: `${obj.width}px`,
-                        height: `${obj.height}px`,
-                        zIndex: 1,
-                        opacity: obj.opacity ?? 1
-                    }}
-                    alt=""
-                  />
-              )
+              return <PrintImage key={obj.id} obj={obj} />;
           }
 
+          // Fitted text is pre-broken into lines (same breaks as the canvas), so it must not wrap again
+          const fitted = hasFitMode(obj) ? getFittedText(obj) : null;
+          const text = fitted ? fitted.lines.join('\n') : obj.text;
+
           return (
             <div
                 key={obj.id}
@@ -53,18 +355,17 @@ const PrintView: React.FC<PrintViewProps> = ({ objects, settings }) => {
                 left: `${obj.x}px`,
                 top: `${obj.y}px`,
                 width: `${obj.width}px`, // Ensure width constrains text flow
-                fontSize: `${obj.fontSize}px`,
-                fontFamily: obj.fontFamily,
-                textAlign: obj.align,
-                lineHeight: 1.2,
-                whiteSpace: 'pre-wrap', // Preserve formatting
-                wordBreak: 'break-word',
-                zIndex: 10,
-                color: '#000000', // Ensure text is black
-                pointerEvents: 'none' // Text shouldn't block clicks in preview
+                ...getCssTextStyle(obj),
+                ...getCssVerticalAlign(obj),
+                ...(fitted ? { fontSize: `${fitted.fontSize}px`, whiteSpace: 'pre', overflow: 'hidden' } : {
+                  whiteSpace: 'pre-wrap', // Preserve formatting
+                  wordBreak: 'break-word',
+                }),
+                pointerEvents: 'none', // Text shouldn't block clicks in preview
+                ...getRotationStyle(obj)
                 }}
             >
-                {obj.text}
+                {obj.height ? <div>{text}</div> : text}
             </div>
           );
         })}
@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { CanvasSettings } from '../types';
+import { unitToPx } from '../services/utils';
+
+export const RULER_SIZE = 20;
+
+interface RulerProps {
+  orientation: 'horizontal' | 'vertical';
+  length: number; // Unscaled canvas pixels
+  unit: CanvasSettings['unit'];
+  scale: number;
+  onMouseDown?: (e: React.MouseEvent) => void;
+}
+
+// Labelled step and number of minor ticks between labels for each unit
+const RULER_STEPS: Record<CanvasSettings['unit'], { label: number; subdivisions: number }> = {
+  mm: { label: 10, subdivisions: 10 },
+  in: { label: 1, subdivisions: 8 },
+};
+
+const MIN_LABEL_SPACING = 40; // px on screen
+const MIN_TICK_SPACING = 4; // px on screen
+
+interface Tick {
+  pos: number; // Screen px along the ruler
+  size: number; // Tick length
+  label?: string;
+}
+
+const Ruler: React.FC<RulerProps> = ({ orientation, length, unit, scale, onMouseDown }) => {
+  const isHorizontal = orientation === 'horizontal';
+  const screenLength = length * scale;
+
+  const ticks = useMemo(() => {
+    const unitPx = unitToPx(1, unit) * scale;
+    if (unitPx <= 0) return [];
+
+    // Widen the label step until labels no longer collide
+    let { label: labelStep, subdivisions } = RULER_STEPS[unit];
+    while (labelStep * unitPx < MIN_LABEL_SPACING) labelStep *= 2;
+    while (subdivisions > 1 && (labelStep / subdivisions) * unitPx < MIN_TICK_SPACING) subdivisions /= 2;
+
+    const minorStep = labelStep / subdivisions;
+    const count = Math.floor(screenLength / (minorStep * unitPx));
+    const result: Tick[] = [];
+    for (let i = 0; i <= count; i++) {
+      const value = i * minorStep;
+      const pos = value * unitPx;
+      if (i % subdivisions === 0) {
+        result.push({ pos, size: RULER_SIZE, label: String(Math.round(value * 100) / 100) });
+      } else if (subdivisions % 2 === 0 && i % (subdivisions / 2) === 0) {
+        result.push({ pos, size: RULER_SIZE * 0.5 });
+      } else {
+        result.push({ pos, size: RULER_SIZE * 0.25 });
+      }
+    }
+    return result;
+  }, [unit, scale, screenLength]);
+
+  return (
+    <svg
+      width={isHorizontal ? screenLength : RULER_SIZE}
+      height={isHorizontal ? RULER_SIZE : screenLength}
+      className="bg-gray-50 select-none block"
+      style={{ cursor: isHorizontal ? 'row-resize' : 'col-resize' }}
+      onMouseDown={onMouseDown}
+    >
+      {ticks.map((t, i) => (
+        <g key={i}>
+          {isHorizontal ? (
+            <line x1={t.pos + 0.5} y1={RULER_SIZE} x2={t.pos + 0.5} y2={RULER_SIZE - t.size} stroke="#9ca3af" strokeWidth={1} />
+          ) : (
+            <line x1={RULER_SIZE} y1={t.pos + 0.5} x2={RULER_SIZE - t.size} y2={t.pos + 0.5} stroke="#9ca3af" strokeWidth={1} />
+          )}
+          {t.label !== undefined && i > 0 && (
+            isHorizontal ? (
+              <text x={t.pos + 2} y={9} fontSize={9} fill="#6b7280">{t.label}</text>
+            ) : (
+              <text x={9} y={t.pos + 2} fontSize={9} fill="#6b7280" transform={`rotate(-90 9 ${t.pos + 2})`} textAnchor="end">{t.label}</text>
+            )
+          )}
+        </g>
+      ))}
+      {isHorizontal ? (
+        <line x1={0} y1={RULER_SIZE - 0.5} x2={screenLength} y2={RULER_SIZE - 0.5} stroke="#d1d5db" />
+      ) : (
+        <line x1={RULER_SIZE - 0.5} y1={0} x2={RULER_SIZE - 0.5} y2={screenLength} stroke="#d1d5db" />
+      )}
+    </svg>
+  );
+};
+
+export default Ruler;
@@ -1,28 +1,96 @@
 import React, { useEffect, useState } from 'react';
-import { CanvasObject, CanvasSettings, LogicType, UserProfile } from '../types';
-import { Trash2, Type, Calendar, DollarSign, User, Braces, Settings, Hash, Image as ImageIcon, AlignLeft, AlignCenter, AlignRight } from 'lucide-react';
-import { getClients } from '../services/storageService';
-import { formatDate } from '../services/utils';
+import { BarcodeSymbology, CanvasObject, ImageCrop, QrErrorCorrection, TableColumn, CanvasSettings, DashStyle, LogicType, ShapeKind, UserProfile } from '../types';
+import { Trash2, Type, Calendar, DollarSign, User, Braces, Settings, Hash, Image as ImageIcon, AlignLeft, AlignCenter, AlignRight, Layers, Grid3x3, RotateCw, RotateCcw, Crop, Shapes, Barcode, QrCode, Table, Plus, X, Lock, Unlock, Eye, EyeOff, Group, Ungroup, Bold, Italic, Underline, Strikethrough, AlignVerticalJustifyStart, AlignVerticalJustifyCenter, AlignVerticalJustifyEnd } from 'lucide-react';
+import { GUEST_USER_ID, getClients } from '../services/storageService';
+import { formatDate, generateId, getTemplateVariables } from '../services/utils';
+import { DEFAULT_GRID_SIZE, DEFAULT_NUDGE_STEP, withSettingsUnit } from '../services/snapping';
+import { SHAPE_LABELS } from '../services/shapes';
+import { BARCODE_LABELS, DEFAULT_MODULE_WIDTH_MM, getBarcodeLayout } from '../services/barcode';
+import { DEFAULT_QUIET_ZONE, QR_EC_LABELS, getQrLayout } from '../services/qrcode';
+import { DEFAULT_MAX_ROWS, DEFAULT_ROW_HEIGHT } from '../services/table';
+import { getDesignTint } from '../services/layers';
+import { DEFAULT_LINE_HEIGHT, DEFAULT_TEXT_COLOR } from '../services/textStyle';
+import { BUILT_IN_FONTS } from '../services/fonts';
+import { DEFAULT_COMB_PITCH_MM, DEFAULT_MIN_FONT_SIZE } from '../services/textLayout';
+import { DEFAULT_THRESHOLD, NO_CROP, getImageCrop, hasImageAdjustments, withImageCrop, withImageRotation } from '../services/imageFilters';
+import FontManager from './FontManager';
 
 interface SidebarProps {
-  selectedObject: CanvasObject | null;
+  selectedObjects: CanvasObject[];
   settings: CanvasSettings;
   onUpdateObject: (obj: CanvasObject, recordHistory?: boolean) => void;
   onUpdateSettings: (s: CanvasSettings) => void;
-  onDeleteObject: (id: string) => void;
+  onDeleteObjects: (ids: string[]) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+  onEnterGroup: (groupId: string) => void;
   user: UserProfile | null;
 }
 
+const OBJECT_TYPE_LABELS: Record<CanvasObject['type'], string> = {
+  text: 'Text Object',
+  image: 'Image Object',
+  shape: 'Shape Object',
+  barcode: 'Barcode Object',
+  qrcode: 'QR Code Object',
+  table: 'Line-Item Table',
+  group: 'Group',
+};
+
+const TEXT_STYLE_TOGGLES: { key: 'bold' | 'italic' | 'underline' | 'strikethrough'; title: string; icon: React.ReactNode }[] = [
+  { key: 'bold', title: 'Bold', icon: <Bold size={14} /> },
+  { key: 'italic', title: 'Italic', icon: <Italic size={14} /> },
+  { key: 'underline', title: 'Underline', icon: <Underline size={14} /> },
+  { key: 'strikethrough', title: 'Strikethrough', icon: <Strikethrough size={14} /> },
+];
+
+const CROP_EDGES: { key: keyof ImageCrop; label: string }[] = [
+  { key: 'top', label: 'Top' },
+  { key: 'right', label: 'Right' },
+  { key: 'bottom', label: 'Bottom' },
+  { key: 'left', label: 'Left' },
+];
+
+const IMAGE_TONE_SLIDERS: { key: 'brightness' | 'contrast'; label: string }[] = [
+  { key: 'brightness', label: 'Brightness' },
+  { key: 'contrast', label: 'Contrast' },
+];
+
+const VERTICAL_ALIGN_OPTIONS: { value: NonNullable<CanvasObject['verticalAlign']>; title: string; icon: React.ReactNode }[] = [
+  { value: 'top', title: 'Top', icon: <AlignVerticalJustifyStart size={14} /> },
+  { value: 'middle', title: 'Middle', icon: <AlignVerticalJustifyCenter size={14} /> },
+  { value: 'bottom', title: 'Bottom', icon: <AlignVerticalJustifyEnd size={14} /> },
+];
+
+// Keep rotation within (-180, 180] so stored values stay readable
+const normalizeRotation = (deg: number) => {
+  const r = ((deg % 360) + 360) % 360;
+  return r > 180 ? r - 360 : r;
+};
+
 const Sidebar: React.FC<SidebarProps> = ({
-  selectedObject,
+  selectedObjects,
   settings,
   onUpdateObject,
   onUpdateSettings,
-  onDeleteObject,
+  onDeleteObjects,
+  onGroup,
+  onUngroup,
+  onEnterGroup,
   user
 }) => {
   const [clientNames, setClientNames] = useState<string[]>([]);
 
+  // Property editing only applies to a single object; multi-selection gets a summary panel
+  const selectedObject = selectedObjects.length === 1 ? selectedObjects[0] : null;
+
+  // Built-in fonts, then fonts uploaded into this template (and a font that was since removed)
+  const fontFamilies = Array.from(new Set([
+    ...BUILT_IN_FONTS,
+    ...(settings.fonts || []).map(f => f.family),
+    ...(selectedObject?.fontFamily ? [selectedObject.fontFamily] : []),
+  ]));
+
   useEffect(() => {
     // Load clients for autocomplete
     getClients().then(clients => {
@@ -53,6 +121,16 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  const handleColumnsChange = (columns: TableColumn[], recordHistory = true) => {
+    handlePropChange('columns', columns, recordHistory);
+  };
+
+  const handleColumnChange = (id: string, patch: Partial<TableColumn>, recordHistory = true) => {
+    if (selectedObject) {
+      handleColumnsChange((selectedObject.columns || []).map(c => (c.id === id ? { ...c, ...patch } : c)), recordHistory);
+    }
+  };
+
   const handleDateFormatChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
       const newFormat = e.target.value;
       if (selectedObject) {
@@ -81,6 +159,10 @@ const Sidebar: React.FC<SidebarProps> = ({
       selectedObject.logicType === LogicType.CUSTOMER_NAME
   );
 
+  const barcodeError = selectedObject?.type === 'barcode' ? getBarcodeLayout(selectedObject).error : undefined;
+  const qrError = selectedObject?.type === 'qrcode' ? getQrLayout(selectedObject).error : undefined;
+  const qrVariables = selectedObject?.type === 'qrcode' ? getTemplateVariables(selectedObject.rawValue || '') : [];
+
   return (
     <div className="w-80 bg-white border-l border-gray-200 flex flex-col h-full overflow-y-auto no-print">
       
@@ -92,7 +174,7 @@ const Sidebar: React.FC<SidebarProps> = ({
       <div className="flex-1 p-4 space-y-6">
         
         {/* No Selection: Canvas Settings */}
-        {!selectedObject && (
+        {selectedObjects.length === 0 && (
           <div className="space-y-4">
             <div className="flex items-center gap-2 text-gray-800 font-medium">
               <Settings size={18} />
@@ -130,13 +212,148 @@ const Sidebar: React.FC<SidebarProps> = ({
               <label className="block text-xs font-medium text-gray-500 mb-1">Unit</label>
               <select
                 value={settings.unit}
-                onChange={(e) => onUpdateSettings({ ...settings, unit: e.target.value as 'mm' | 'in' })}
+                onChange={(e) => onUpdateSettings(withSettingsUnit(settings, e.target.value as 'mm' | 'in'))}
                 className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
               >
                 <option value="mm">Millimeters (mm)</option>
                 <option value="in">Inches (in)</option>
               </select>
             </div>
+
+            <div className="pt-4 border-t border-gray-100 space-y-3">
+              <div className="flex items-center gap-2 text-gray-800 font-medium">
+                <Grid3x3 size={18} />
+                <h3>Grid & Snapping</h3>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Grid Size</label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min="0"
+                    step={settings.unit === 'mm' ? 0.5 : 0.05}
+                    value={settings.gridSize ?? DEFAULT_GRID_SIZE[settings.unit]}
+                    onChange={(e) => {
+                      const val = parseFloat(e.target.value);
+                      if (!isNaN(val) && val > 0) onUpdateSettings({ ...settings, gridSize: val });
+                    }}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                  />
+                  <span className="absolute right-3 top-2 text-xs text-gray-400">{settings.unit}</span>
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!settings.showGrid}
+                  onChange={(e) => onUpdateSettings({ ...settings, showGrid: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Show grid
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!settings.snapToGrid}
+                  onChange={(e) => onUpdateSettings({ ...settings, snapToGrid: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Snap to grid
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={settings.snapToObjects !== false}
+                  onChange={(e) => onUpdateSettings({ ...settings, snapToObjects: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Snap to objects & page
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1">Arrow Nudge</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="0"
+                      step={settings.unit === 'mm' ? 0.1 : 0.01}
+                      value={settings.nudgeStep ?? DEFAULT_NUDGE_STEP[settings.unit].fine}
+                      onChange={(e) => {
+                        const val = parseFloat(e.target.value);
+                        if (!isNaN(val) && val > 0) onUpdateSettings({ ...settings, nudgeStep: val });
+                      }}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                    />
+                    <span className="absolute right-3 top-2 text-xs text-gray-400">{settings.unit}</span>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1">Shift + Arrow</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="0"
+                      step={settings.unit === 'mm' ? 1 : 0.1}
+                      value={settings.nudgeStepCoarse ?? DEFAULT_NUDGE_STEP[settings.unit].coarse}
+                      onChange={(e) => {
+                        const val = parseFloat(e.target.value);
+                        if (!isNaN(val) && val > 0) onUpdateSettings({ ...settings, nudgeStepCoarse: val });
+                      }}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                    />
+                    <span className="absolute right-3 top-2 text-xs text-gray-400">{settings.unit}</span>
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>{(settings.guides || []).length} ruler guide(s) — drag from a ruler to add</span>
+                {(settings.guides || []).length > 0 && (
+                  <button
+                    onClick={() => onUpdateSettings({ ...settings, guides: [] })}
+                    className="text-red-500 hover:underline"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <FontManager
+              fonts={settings.fonts || []}
+              onChange={(fonts) => onUpdateSettings({ ...settings, fonts })}
+              userId={user?.id || GUEST_USER_ID}
+            />
+          </div>
+        )}
+
+        {/* Multi Selection */}
+        {selectedObjects.length > 1 && (
+          <div className="space-y-4 animate-fadeIn">
+             <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-indigo-600 font-medium">
+                  <Layers size={18} />
+                  <span>{selectedObjects.length} Objects Selected</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={onGroup}
+                    className="text-gray-500 hover:bg-gray-100 p-1.5 rounded-md transition-colors"
+                    title="Group (Ctrl+G)"
+                  >
+                    <Group size={16} />
+                  </button>
+                  <button 
+                    onClick={() => onDeleteObjects(selectedObjects.map(o => o.id))}
+                    className="text-red-500 hover:bg-red-50 p-1.5 rounded-md transition-colors"
+                    title="Delete Selected"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+             </div>
+             <div className="p-3 bg-blue-50 text-blue-800 text-xs rounded border border-blue-100">
+                 <strong>Tip:</strong> Drag any selected object to move them together, or use the handles to resize the group. Shift-click to add or remove objects.
+             </div>
           </div>
         )}
 
@@ -152,16 +369,66 @@ const Sidebar: React.FC<SidebarProps> = ({
                   {selectedObject.type === 'text' && selectedObject.logicType === LogicType.CURRENCY_NUM && <Hash size={18} />}
                   {selectedObject.type === 'text' && selectedObject.logicType === LogicType.CUSTOMER_NAME && <User size={18} />}
                   {selectedObject.type === 'image' && <ImageIcon size={18} />}
-                  <span>{selectedObject.type === 'image' ? 'Image Object' : 'Text Object'}</span>
+                  {selectedObject.type === 'shape' && <Shapes size={18} />}
+                  {selectedObject.type === 'barcode' && <Barcode size={18} />}
+                  {selectedObject.type === 'qrcode' && <QrCode size={18} />}
+                  {selectedObject.type === 'table' && <Table size={18} />}
+                  {selectedObject.type === 'group' && <Group size={18} />}
+                  <span>{OBJECT_TYPE_LABELS[selectedObject.type]}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => handlePropChange('hidden', !selectedObject.hidden)}
+                    className="text-gray-500 hover:bg-gray-100 p-1.5 rounded-md transition-colors"
+                    title={selectedObject.hidden ? 'Show (hidden objects do not print)' : 'Hide (hidden objects do not print)'}
+                  >
+                    {selectedObject.hidden ? <EyeOff size={16} /> : <Eye size={16} />}
+                  </button>
+                  <button
+                    onClick={() => handlePropChange('locked', !selectedObject.locked)}
+                    className={`hover:bg-gray-100 p-1.5 rounded-md transition-colors ${selectedObject.locked ? 'text-amber-500' : 'text-gray-500'}`}
+                    title={selectedObject.locked ? 'Unlock' : 'Lock position and selection on the canvas'}
+                  >
+                    {selectedObject.locked ? <Lock size={16} /> : <Unlock size={16} />}
+                  </button>
+                  <button 
+                    onClick={() => onDeleteObjects([selectedObject.id])}
+                    className="text-red-500 hover:bg-red-50 p-1.5 rounded-md transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
                 </div>
-                <button 
-                  onClick={() => onDeleteObject(selectedObject.id)}
-                  className="text-red-500 hover:bg-red-50 p-1.5 rounded-md transition-colors"
-                  title="Delete"
-                >
-                  <Trash2 size={16} />
-                </button>
              </div>
+             {selectedObject.locked && (
+                 <div className="p-2 bg-amber-50 text-amber-800 text-xs rounded border border-amber-100">
+                     Locked: this object cannot be clicked, dragged or resized on the canvas. Select it from the Layers panel.
+                 </div>
+             )}
+
+             {/* GROUP PROPERTIES */}
+             {selectedObject.type === 'group' && (
+                 <div className="space-y-4">
+                     <div className="p-3 bg-blue-50 text-blue-800 text-xs rounded border border-blue-100">
+                         {selectedObject.children?.length || 0} objects that move, scale and copy together. Double-click the group on the canvas to edit them.
+                     </div>
+                     <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => onEnterGroup(selectedObject.id)}
+                            className="flex items-center justify-center gap-1.5 px-3 py-2 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                            <Layers size={14} /> Edit Contents
+                        </button>
+                        <button
+                            onClick={onUngroup}
+                            className="flex items-center justify-center gap-1.5 px-3 py-2 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                            title="Ungroup (Ctrl+Shift+G)"
+                        >
+                            <Ungroup size={14} /> Ungroup
+                        </button>
+                     </div>
+                 </div>
+             )}
 
              {/* IMAGE PROPERTIES */}
              {selectedObject.type === 'image' && (
@@ -206,6 +473,576 @@ const Sidebar: React.FC<SidebarProps> = ({
                             className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
                         />
                      </div>
+
+                     {/* Adjustments: stored on the object, the uploaded file is left as it is */}
+                     <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <label className="flex items-center gap-1.5 text-xs font-medium text-gray-500">
+                                <Crop size={12} /> Crop (% of image)
+                            </label>
+                            <div className="flex gap-1">
+                                <button
+                                    onClick={() => onUpdateObject(withImageRotation(selectedObject, (selectedObject.imageRotation || 0) - 90), true)}
+                                    className="p-1 rounded border border-gray-300 text-gray-600 hover:bg-gray-50"
+                                    title="Rotate image 90° left"
+                                >
+                                    <RotateCcw size={12} />
+                                </button>
+                                <button
+                                    onClick={() => onUpdateObject(withImageRotation(selectedObject, (selectedObject.imageRotation || 0) + 90), true)}
+                                    className="p-1 rounded border border-gray-300 text-gray-600 hover:bg-gray-50"
+                                    title="Rotate image 90° right"
+                                >
+                                    <RotateCw size={12} />
+                                </button>
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-4 gap-2">
+                            {CROP_EDGES.map(({ key, label }) => (
+                                <div key={key}>
+                                    <label className="block text-[10px] text-gray-400 mb-0.5">{label}</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max="95"
+                                        value={Math.round(getImageCrop(selectedObject)[key] * 10) / 10}
+                                        onChange={(e) => {
+                                            const val = parseFloat(e.target.value);
+                                            if (!isNaN(val)) onUpdateObject(withImageCrop(selectedObject, { ...getImageCrop(selectedObject), [key]: val }), true);
+                                        }}
+                                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-xs border p-1.5"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                     </div>
+
+                     {IMAGE_TONE_SLIDERS.map(({ key, label }) => (
+                        <div key={key}>
+                            <div className="flex justify-between mb-1">
+                                <label className="block text-xs font-medium text-gray-500">{label}</label>
+                                <span className="text-xs text-gray-700">{selectedObject[key] || 0}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min="-100"
+                                max="100"
+                                value={selectedObject[key] || 0}
+                                onChange={(e) => handlePropChange(key, parseInt(e.target.value) || undefined, false)}
+                                onMouseUp={(e) => handlePropChange(key, parseInt(e.currentTarget.value) || undefined, true)}
+                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                            />
+                        </div>
+                     ))}
+
+                     <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Color</label>
+                        <select
+                            value={selectedObject.threshold !== undefined ? 'threshold' : selectedObject.grayscale ? 'grayscale' : 'original'}
+                            onChange={(e) => onUpdateObject({
+                                ...selectedObject,
+                                grayscale: e.target.value === 'grayscale' || undefined,
+                                threshold: e.target.value === 'threshold' ? DEFAULT_THRESHOLD : undefined,
+                            }, true)}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                        >
+                            <option value="original">Original</option>
+                            <option value="grayscale">Grayscale</option>
+                            <option value="threshold">Black &amp; white (threshold)</option>
+                        </select>
+                     </div>
+
+                     {selectedObject.threshold !== undefined && (
+                        <div>
+                            <div className="flex justify-between mb-1">
+                                <label className="block text-xs font-medium text-gray-500">Threshold</label>
+                                <span className="text-xs text-gray-700">{selectedObject.threshold}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min="1"
+                                max="254"
+                                value={selectedObject.threshold}
+                                onChange={(e) => handlePropChange('threshold', parseInt(e.target.value), false)}
+                                onMouseUp={(e) => handlePropChange('threshold', parseInt(e.currentTarget.value), true)}
+                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                            />
+                            <p className="text-[10px] text-gray-400 mt-1">Darker than this prints black, the rest white.</p>
+                        </div>
+                     )}
+
+                     <label className="flex items-center gap-2 text-xs text-gray-600">
+                        <input
+                            type="checkbox"
+                            checked={!!selectedObject.transparentWhite}
+                            onChange={(e) => handlePropChange('transparentWhite', e.target.checked || undefined)}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Make white transparent (signatures, stamps)
+                     </label>
+
+                     {hasImageAdjustments(selectedObject) && (
+                        <button
+                            onClick={() => onUpdateObject({
+                                ...withImageRotation(withImageCrop(selectedObject, NO_CROP), 0),
+                                brightness: undefined,
+                                contrast: undefined,
+                                grayscale: undefined,
+                                threshold: undefined,
+                                transparentWhite: undefined,
+                            }, true)}
+                            className="w-full px-3 py-1.5 rounded-md border border-gray-300 text-xs text-gray-600 hover:bg-gray-50"
+                        >
+                            Reset adjustments
+                        </button>
+                     )}
+                 </div>
+             )}
+
+             {/* BARCODE PROPERTIES */}
+             {selectedObject.type === 'barcode' && (
+                 <div className="space-y-4">
+                     <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Symbology</label>
+                        <select
+                            value={selectedObject.symbology || 'CODE128'}
+                            onChange={(e) => handlePropChange('symbology', e.target.value as BarcodeSymbology)}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2 bg-white"
+                        >
+                            {(Object.keys(BARCODE_LABELS) as BarcodeSymbology[]).map(sym => (
+                                <option key={sym} value={sym}>{BARCODE_LABELS[sym]}</option>
+                            ))}
+                        </select>
+                     </div>
+
+                     <div>
+                        <label className="block text-xs font-medium text-indigo-600 mb-1">Variable Key</label>
+                        <input
+                            type="text"
+                            value={selectedObject.variableKey || ''}
+                            onChange={(e) => handlePropChange('variableKey', e.target.value, false)}
+                            onBlur={() => onUpdateObject(selectedObject, true)}
+                            placeholder="e.g. receipt_no"
+                            className="block w-full rounded-md border-indigo-300 ring-1 ring-indigo-100 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2 bg-indigo-50/50"
+                        />
+                        <p className="text-[10px] text-gray-500 mt-1">Value will be filled at print time.</p>
+                     </div>
+
+                     <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Default / Test Value</label>
+                        <input
+                            type="text"
+                            value={selectedObject.rawValue || ''}
+                            onChange={(e) => handlePropChange('rawValue', e.target.value, false)}
+                            onBlur={() => onUpdateObject(selectedObject, true)}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                        />
+                        {barcodeError && (
+                            <p className="text-[10px] text-red-500 mt-1">{barcodeError}</p>
+                        )}
+                     </div>
+
+                     <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Module Width (mm)</label>
+                            <input
+                                type="number"
+                                min="0.1"
+                                step="0.01"
+                                value={selectedObject.moduleWidth ?? DEFAULT_MODULE_WIDTH_MM}
+                                onChange={(e) => {
+                                    const val = parseFloat(e.target.value);
+                                    if (!isNaN(val) && val > 0) handlePropChange('moduleWidth', val);
+                                }}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Height (px)</label>
+                            <input
+                                type="number"
+                                value={Math.round(selectedObject.height || 0)}
+                                onChange={(e) => {
+                                    const val = parseInt(e.target.value);
+                                    if (!isNaN(val) && val > 0) handlePropChange('height', val);
+                                }}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                     </div>
+
+                     <div className="flex items-center justify-between">
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={selectedObject.showText !== false}
+                                onChange={(e) => handlePropChange('showText', e.target.checked)}
+                                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Human-readable text
+                        </label>
+                        {selectedObject.showText !== false && (
+                            <input
+                                type="number"
+                                title="Font Size"
+                                value={selectedObject.fontSize || 12}
+                                onChange={(e) => handlePropChange('fontSize', parseInt(e.target.value))}
+                                className="w-20 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        )}
+                     </div>
+                 </div>
+             )}
+
+             {/* QR CODE PROPERTIES */}
+             {selectedObject.type === 'qrcode' && (
+                 <div className="space-y-4">
+                     <div>
+                        <label className="block text-xs font-medium text-indigo-600 mb-1">Content</label>
+                        <textarea
+                            value={selectedObject.rawValue || ''}
+                            onChange={(e) => handlePropChange('rawValue', e.target.value, false)}
+                            onBlur={() => onUpdateObject(selectedObject, true)}
+                            rows={3}
+                            placeholder="e.g. https://pay.example.com/?inv={{invoice_no}}&amt={{amount}}"
+                            className="block w-full rounded-md border-indigo-300 ring-1 ring-indigo-100 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2 bg-indigo-50/50 font-mono"
+                        />
+                        <p className="text-[10px] text-gray-500 mt-1">
+                            {qrVariables.length > 0
+                                ? <>Filled at print time: {qrVariables.map(v => `{{${v}}}`).join(', ')}</>
+                                : <>Use {'{{key}}'} placeholders to insert print values.</>}
+                        </p>
+                        {qrError && (
+                            <p className="text-[10px] text-red-500 mt-1">{qrError}</p>
+                        )}
+                     </div>
+
+                     <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Error Correction</label>
+                        <select
+                            value={selectedObject.ecLevel || 'M'}
+                            onChange={(e) => handlePropChange('ecLevel', e.target.value as QrErrorCorrection)}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2 bg-white"
+                        >
+                            {(Object.keys(QR_EC_LABELS) as QrErrorCorrection[]).map(level => (
+                                <option key={level} value={level}>{QR_EC_LABELS[level]}</option>
+                            ))}
+                        </select>
+                     </div>
+
+                     <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Size (px)</label>
+                            <input
+                                type="number"
+                                min="20"
+                                value={Math.round(selectedObject.width)}
+                                onChange={(e) => {
+                                    const val = parseInt(e.target.value);
+                                    if (!isNaN(val) && val >= 20) onUpdateObject({ ...selectedObject, width: val, height: val });
+                                }}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Quiet Zone (modules)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                max="10"
+                                value={selectedObject.quietZone ?? DEFAULT_QUIET_ZONE}
+                                onChange={(e) => {
+                                    const val = parseInt(e.target.value);
+                                    if (!isNaN(val) && val >= 0) handlePropChange('quietZone', val);
+                                }}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                     </div>
+                 </div>
+             )}
+
+             {/* TABLE PROPERTIES */}
+             {selectedObject.type === 'table' && (
+                 <div className="space-y-4">
+                     <div>
+                        <label className="block text-xs font-medium text-indigo-600 mb-1">List Variable Key</label>
+                        <input
+                            type="text"
+                            value={selectedObject.variableKey || ''}
+                            onChange={(e) => handlePropChange('variableKey', e.target.value, false)}
+                            onBlur={() => onUpdateObject(selectedObject, true)}
+                            placeholder="e.g. items"
+                            className="block w-full rounded-md border-indigo-300 ring-1 ring-indigo-100 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2 bg-indigo-50/50"
+                        />
+                        <p className="text-[10px] text-gray-500 mt-1">Rows are entered as a grid at print time.</p>
+                     </div>
+
+                     <div className="grid grid-cols-3 gap-2">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Row (px)</label>
+                            <input
+                                type="number"
+                                min="8"
+                                value={selectedObject.rowHeight || DEFAULT_ROW_HEIGHT}
+                                onChange={(e) => {
+                                    const val = parseInt(e.target.value);
+                                    if (!isNaN(val) && val >= 8) handlePropChange('rowHeight', val);
+                                }}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Max Rows</label>
+                            <input
+                                type="number"
+                                min="1"
+                                value={selectedObject.maxRows || DEFAULT_MAX_ROWS}
+                                onChange={(e) => {
+                                    const val = parseInt(e.target.value);
+                                    if (!isNaN(val) && val >= 1) handlePropChange('maxRows', val);
+                                }}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Font (px)</label>
+                            <input
+                                type="number"
+                                value={selectedObject.fontSize || 12}
+                                onChange={(e) => handlePropChange('fontSize', parseInt(e.target.value))}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                     </div>
+
+                     <div className="flex gap-4">
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={selectedObject.showHeader !== false}
+                                onChange={(e) => handlePropChange('showHeader', e.target.checked)}
+                                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Header row
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={selectedObject.showBorders !== false}
+                                onChange={(e) => handlePropChange('showBorders', e.target.checked)}
+                                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Borders
+                        </label>
+                     </div>
+
+                     <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <label className="block text-xs font-medium text-gray-500">Columns</label>
+                            <button
+                                onClick={() => handleColumnsChange([...(selectedObject.columns || []), { id: generateId(), key: 'field', header: 'Field', width: 80, align: 'left', format: 'text' }])}
+                                className="text-xs text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+                            >
+                                <Plus size={12} /> Add
+                            </button>
+                        </div>
+                        <div className="space-y-2">
+                            {(selectedObject.columns || []).map(col => (
+                                <div key={col.id} className="p-2 border border-gray-200 rounded-md space-y-1.5">
+                                    <div className="flex gap-1.5">
+                                        <input
+                                            type="text"
+                                            value={col.header}
+                                            onChange={(e) => handleColumnChange(col.id, { header: e.target.value }, false)}
+                                            onBlur={() => onUpdateObject(selectedObject, true)}
+                                            title="Header"
+                                            className="flex-1 min-w-0 rounded border-gray-300 border px-1.5 py-1 text-xs"
+                                        />
+                                        <input
+                                            type="text"
+                                            value={col.key}
+                                            onChange={(e) => handleColumnChange(col.id, { key: e.target.value }, false)}
+                                            onBlur={() => onUpdateObject(selectedObject, true)}
+                                            title="Row field key"
+                                            className="w-24 rounded border-gray-300 border px-1.5 py-1 text-xs font-mono"
+                                        />
+                                        <button
+                                            onClick={() => handleColumnsChange((selectedObject.columns || []).filter(c => c.id !== col.id))}
+                                            className="text-gray-400 hover:text-red-500"
+                                            title="Remove column"
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                    <div className="flex gap-1.5">
+                                        <input
+                                            type="number"
+                                            min="10"
+                                            value={Math.round(col.width)}
+                                            onChange={(e) => {
+                                                const val = parseInt(e.target.value);
+                                                if (!isNaN(val) && val >= 10) handleColumnChange(col.id, { width: val });
+                                            }}
+                                            title="Width (px)"
+                                            className="w-16 rounded border-gray-300 border px-1.5 py-1 text-xs"
+                                        />
+                                        <select
+                                            value={col.align}
+                                            onChange={(e) => handleColumnChange(col.id, { align: e.target.value as TableColumn['align'] })}
+                                            className="flex-1 rounded border-gray-300 border px-1 py-1 text-xs bg-white"
+                                        >
+                                            <option value="left">Left</option>
+                                            <option value="center">Center</option>
+                                            <option value="right">Right</option>
+                                        </select>
+                                        <select
+                                            value={col.format}
+                                            onChange={(e) => handleColumnChange(col.id, { format: e.target.value as TableColumn['format'] })}
+                                            className="flex-1 rounded border-gray-300 border px-1 py-1 text-xs bg-white"
+                                        >
+                                            <option value="text">Text</option>
+                                            <option value="number">Number</option>
+                                            <option value="currency">Currency</option>
+                                        </select>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-1">A blank <span className="font-mono">amount</span> is calculated from <span className="font-mono">qty</span> × <span className="font-mono">unit_price</span>.</p>
+                     </div>
+                 </div>
+             )}
+
+             {/* SHAPE PROPERTIES */}
+             {selectedObject.type === 'shape' && (
+                 <div className="space-y-4">
+                     <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Shape</label>
+                        <select
+                            value={selectedObject.shapeKind || 'rect'}
+                            onChange={(e) => {
+                                const kind = e.target.value as ShapeKind;
+                                onUpdateObject({
+                                    ...selectedObject,
+                                    shapeKind: kind,
+                                    // Lines have no height; give boxes a usable one when switching from a line
+                                    height: kind !== 'line' && !selectedObject.height ? 80 : selectedObject.height,
+                                    cornerRadius: kind === 'roundedRect' ? selectedObject.cornerRadius ?? 8 : selectedObject.cornerRadius
+                                });
+                            }}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2 bg-white"
+                        >
+                            {(Object.keys(SHAPE_LABELS) as ShapeKind[]).map(kind => (
+                                <option key={kind} value={kind}>{SHAPE_LABELS[kind]}</option>
+                            ))}
+                        </select>
+                     </div>
+
+                     <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">{selectedObject.shapeKind === 'line' ? 'Length (px)' : 'Width (px)'}</label>
+                            <input
+                                type="number"
+                                value={Math.round(selectedObject.width)}
+                                onChange={(e) => {
+                                    const val = parseInt(e.target.value);
+                                    if (!isNaN(val) && val > 0) handlePropChange('width', val);
+                                }}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                        {selectedObject.shapeKind !== 'line' && (
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Height (px)</label>
+                                <input
+                                    type="number"
+                                    value={Math.round(selectedObject.height || 0)}
+                                    onChange={(e) => {
+                                        const val = parseInt(e.target.value);
+                                        if (!isNaN(val) && val > 0) handlePropChange('height', val);
+                                    }}
+                                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                                />
+                            </div>
+                        )}
+                     </div>
+
+                     <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Stroke Width</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={selectedObject.strokeWidth ?? 1}
+                                onChange={(e) => handlePropChange('strokeWidth', Math.max(0, parseFloat(e.target.value) || 0))}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Stroke Color</label>
+                            <input
+                                type="color"
+                                value={selectedObject.stroke || '#000000'}
+                                onChange={(e) => handlePropChange('stroke', e.target.value, false)}
+                                onBlur={() => onUpdateObject(selectedObject, true)}
+                                className="block w-full h-9 rounded-md border border-gray-300 p-1"
+                            />
+                        </div>
+                     </div>
+
+                     <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Dash Pattern</label>
+                        <select
+                            value={selectedObject.dashStyle || 'solid'}
+                            onChange={(e) => handlePropChange('dashStyle', e.target.value as DashStyle)}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2 bg-white"
+                        >
+                            <option value="solid">Solid</option>
+                            <option value="dashed">Dashed</option>
+                            <option value="dotted">Dotted</option>
+                        </select>
+                     </div>
+
+                     {selectedObject.shapeKind !== 'line' && (
+                         <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Fill</label>
+                            <div className="flex items-center gap-3">
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!selectedObject.fill}
+                                        onChange={(e) => handlePropChange('fill', e.target.checked ? '#ffffff' : '')}
+                                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                    />
+                                    Filled
+                                </label>
+                                {selectedObject.fill && (
+                                    <input
+                                        type="color"
+                                        value={selectedObject.fill}
+                                        onChange={(e) => handlePropChange('fill', e.target.value, false)}
+                                        onBlur={() => onUpdateObject(selectedObject, true)}
+                                        className="flex-1 h-9 rounded-md border border-gray-300 p-1"
+                                    />
+                                )}
+                            </div>
+                         </div>
+                     )}
+
+                     {selectedObject.shapeKind === 'roundedRect' && (
+                         <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Corner Radius (px)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                value={selectedObject.cornerRadius ?? 0}
+                                onChange={(e) => handlePropChange('cornerRadius', Math.max(0, parseFloat(e.target.value) || 0))}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                         </div>
+                     )}
                  </div>
              )}
 
@@ -319,13 +1156,27 @@ const Sidebar: React.FC<SidebarProps> = ({
                             onChange={(e) => handlePropChange('fontFamily', e.target.value)}
                             className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
                         >
-                            <option value="Arial">Arial</option>
-                            <option value="Times New Roman">Times New Roman</option>
-                            <option value="Courier New">Courier New</option>
-                            <option value="Inter">Inter</option>
+                            {fontFamilies.map(family => (
+                                <option key={family} value={family}>{family}</option>
+                            ))}
                         </select>
                     </div>
 
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Writing Mode</label>
+                        <select
+                            value={selectedObject.writingMode || 'horizontal'}
+                            onChange={(e) => handlePropChange('writingMode', e.target.value === 'vertical' ? 'vertical' : undefined)}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                        >
+                            <option value="horizontal">Horizontal</option>
+                            <option value="vertical">Vertical (直書, columns right to left)</option>
+                        </select>
+                        {selectedObject.writingMode === 'vertical' && (
+                            <p className="text-[10px] text-gray-500 mt-1">Alignment runs along each column (left = top). Set a box height to wrap columns.</p>
+                        )}
+                    </div>
+
                     <div>
                       <label className="block text-xs font-medium text-gray-500 mb-1">Alignment</label>
                       <div className="flex rounded-md shadow-sm">
@@ -349,8 +1200,284 @@ const Sidebar: React.FC<SidebarProps> = ({
                         </button>
                       </div>
                     </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Style</label>
+                            <div className="flex rounded-md shadow-sm">
+                                {TEXT_STYLE_TOGGLES.map((t, i) => (
+                                    <button
+                                      key={t.key}
+                                      onClick={() => handlePropChange(t.key, !selectedObject[t.key])}
+                                      title={t.title}
+                                      className={`relative inline-flex items-center py-2 border text-sm font-medium focus:z-10 focus:outline-none flex-1 justify-center ${i === 0 ? 'rounded-l-md' : '-ml-px'} ${i === TEXT_STYLE_TOGGLES.length - 1 ? 'rounded-r-md' : ''} ${selectedObject[t.key] ? 'bg-indigo-50 text-indigo-600 border-indigo-200 z-10' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+                                    >
+                                      {t.icon}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Color</label>
+                            <input
+                                type="color"
+                                value={selectedObject.color || DEFAULT_TEXT_COLOR}
+                                onChange={(e) => handlePropChange('color', e.target.value, false)}
+                                onBlur={() => onUpdateObject(selectedObject, true)}
+                                className="block w-full h-9 rounded-md border border-gray-300 p-1"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Letter Spacing (px)</label>
+                            <input
+                                type="number"
+                                step="0.5"
+                                value={selectedObject.letterSpacing || 0}
+                                onChange={(e) => {
+                                    const val = parseFloat(e.target.value);
+                                    handlePropChange('letterSpacing', isNaN(val) || val === 0 ? undefined : val);
+                                }}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Line Height</label>
+                            <input
+                                type="number"
+                                step="0.1"
+                                min="0.5"
+                                value={selectedObject.lineHeight || DEFAULT_LINE_HEIGHT}
+                                onChange={(e) => {
+                                    const val = parseFloat(e.target.value);
+                                    if (!isNaN(val) && val > 0) handlePropChange('lineHeight', val);
+                                }}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Box Height (px)</label>
+                            <input
+                                type="number"
+                                placeholder="Auto"
+                                value={selectedObject.height ? Math.round(selectedObject.height) : ''}
+                                onChange={(e) => {
+                                    const val = parseInt(e.target.value);
+                                    handlePropChange('height', isNaN(val) || val <= 0 ? undefined : val);
+                                }}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Vertical Align</label>
+                            <div className="flex rounded-md shadow-sm">
+                                {VERTICAL_ALIGN_OPTIONS.map((v, i) => {
+                                    const active = (selectedObject.verticalAlign || 'top') === v.value;
+                                    return (
+                                        <button
+                                          key={v.value}
+                                          onClick={() => handlePropChange('verticalAlign', v.value)}
+                                          disabled={!selectedObject.height || selectedObject.writingMode === 'vertical'}
+                                          title={selectedObject.height ? v.title : 'Set a box height to align vertically'}
+                                          className={`relative inline-flex items-center py-2 border text-sm font-medium focus:z-10 focus:outline-none flex-1 justify-center disabled:opacity-40 disabled:cursor-not-allowed ${i === 0 ? 'rounded-l-md' : '-ml-px'} ${i === VERTICAL_ALIGN_OPTIONS.length - 1 ? 'rounded-r-md' : ''} ${active ? 'bg-indigo-50 text-indigo-600 border-indigo-200 z-10' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+                                        >
+                                          {v.icon}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    </div>
+
+                    {selectedObject.writingMode !== 'vertical' && (
+                        <div className="space-y-2">
+                            <label className="flex items-center gap-2 text-xs font-medium text-gray-500">
+                                <input
+                                    type="checkbox"
+                                    checked={!!selectedObject.combCells}
+                                    onChange={(e) => onUpdateObject(e.target.checked
+                                        ? { ...selectedObject, combCells: Math.max(1, Math.min(Array.from(selectedObject.text || '').length, 20)), combPitch: selectedObject.combPitch || DEFAULT_COMB_PITCH_MM }
+                                        : { ...selectedObject, combCells: undefined }, true)}
+                                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                />
+                                Comb (one character per box)
+                            </label>
+                            {!!selectedObject.combCells && (
+                                <>
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-xs font-medium text-gray-500 mb-1">Cells</label>
+                                            <input
+                                                type="number"
+                                                min="1"
+                                                value={selectedObject.combCells}
+                                                onChange={(e) => {
+                                                    const val = parseInt(e.target.value);
+                                                    if (!isNaN(val) && val > 0) handlePropChange('combCells', val);
+                                                }}
+                                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-xs font-medium text-gray-500 mb-1">Cell Pitch (mm)</label>
+                                            <input
+                                                type="number"
+                                                step="0.1"
+                                                min="1"
+                                                value={Math.round((selectedObject.combPitch || DEFAULT_COMB_PITCH_MM) * 100) / 100}
+                                                onChange={(e) => {
+                                                    const val = parseFloat(e.target.value);
+                                                    if (!isNaN(val) && val > 0) handlePropChange('combPitch', val);
+                                                }}
+                                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                                            />
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-4 items-end">
+                                        <div>
+                                            <label className="block text-xs font-medium text-gray-500 mb-1">Fill From</label>
+                                            <select
+                                                value={selectedObject.combAlign || 'left'}
+                                                onChange={(e) => handlePropChange('combAlign', e.target.value === 'right' ? 'right' : undefined)}
+                                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                                            >
+                                                <option value="left">Left</option>
+                                                <option value="right">Right (amounts)</option>
+                                            </select>
+                                        </div>
+                                        <label className="flex items-center gap-2 text-xs text-gray-600 pb-2.5">
+                                            <input
+                                                type="checkbox"
+                                                checked={!!selectedObject.combBorders}
+                                                onChange={(e) => handlePropChange('combBorders', e.target.checked || undefined)}
+                                                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                            />
+                                            Print cell borders
+                                        </label>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    {selectedObject.writingMode !== 'vertical' && !selectedObject.combCells && (
+                        <div className="space-y-2">
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Fit to Box</label>
+                                <select
+                                    value={selectedObject.fitMode || 'none'}
+                                    onChange={(e) => handlePropChange('fitMode', e.target.value === 'none' ? undefined : e.target.value as CanvasObject['fitMode'])}
+                                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                                >
+                                    <option value="none">Off (wrap freely)</option>
+                                    <option value="shrink">Shrink font to fit</option>
+                                    <option value="wrap">Wrap within max lines</option>
+                                    <option value="ellipsis">Truncate with ellipsis (…)</option>
+                                </select>
+                            </div>
+                            {selectedObject.fitMode && (
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-500 mb-1">Max Lines</label>
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            placeholder={selectedObject.height ? 'Box height' : selectedObject.fitMode === 'wrap' ? 'No limit' : '1'}
+                                            value={selectedObject.maxLines || ''}
+                                            onChange={(e) => {
+                                                const val = parseInt(e.target.value);
+                                                handlePropChange('maxLines', isNaN(val) || val <= 0 ? undefined : val);
+                                            }}
+                                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                                        />
+                                    </div>
+                                    {selectedObject.fitMode === 'shrink' && (
+                                        <div>
+                                            <label className="block text-xs font-medium text-gray-500 mb-1">Min Font Size</label>
+                                            <input
+                                                type="number"
+                                                min="1"
+                                                value={selectedObject.minFontSize || DEFAULT_MIN_FONT_SIZE}
+                                                onChange={(e) => {
+                                                    const val = parseFloat(e.target.value);
+                                                    if (!isNaN(val) && val > 0) handlePropChange('minFontSize', val);
+                                                }}
+                                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                            {selectedObject.fitMode === 'shrink' && (
+                                <p className="text-[10px] text-gray-500">Text that still does not fit at the minimum size is truncated with an ellipsis.</p>
+                            )}
+                        </div>
+                    )}
                  </>
              )}
+
+             {/* ROTATION (all object types) */}
+             <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Rotation</label>
+                <div className="flex gap-2">
+                    <div className="relative flex-1">
+                        <input
+                            type="number"
+                            step="1"
+                            value={Math.round((selectedObject.rotation || 0) * 100) / 100}
+                            onChange={(e) => {
+                                const val = parseFloat(e.target.value);
+                                if (!isNaN(val)) handlePropChange('rotation', normalizeRotation(val));
+                            }}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                        />
+                        <span className="absolute right-3 top-2 text-xs text-gray-400">°</span>
+                    </div>
+                    <button
+                        onClick={() => handlePropChange('rotation', normalizeRotation((selectedObject.rotation || 0) + 90))}
+                        className="px-3 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+                        title="Rotate 90° clockwise"
+                    >
+                        <RotateCw size={16} />
+                    </button>
+                </div>
+             </div>
+
+             {/* DESIGN ONLY (all object types) */}
+             <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={!!selectedObject.designOnly}
+                        onChange={(e) => handlePropChange('designOnly', e.target.checked)}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Design only (never printed)
+                </label>
+                {selectedObject.designOnly && (
+                    <div>
+                        <div className="flex justify-between mb-1">
+                            <label className="block text-xs font-medium text-gray-500">Reference Tint</label>
+                            <span className="text-xs text-gray-700">{Math.round(getDesignTint(selectedObject) * 100)}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0"
+                            max="100"
+                            value={Math.round(getDesignTint(selectedObject) * 100)}
+                            onChange={(e) => handlePropChange('designTint', parseInt(e.target.value) / 100, false)}
+                            onMouseUp={(e) => handlePropChange('designTint', parseInt(e.currentTarget.value) / 100, true)}
+                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                        <p className="text-[10px] text-gray-500 mt-1">Use for scans of pre-printed stock to line up fields. Skipped by print and PDF export.</p>
+                    </div>
+                )}
+             </div>
           </div>
         )}
       </div>
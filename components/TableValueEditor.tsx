@@ -0,0 +1,75 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { TableColumn } from '../types';
+import { TableRow, parseTableRows, serializeTableRows } from '../services/table';
+
+interface TableValueEditorProps {
+  columns: TableColumn[];
+  maxRows: number;
+  value: string; // Rows as JSON, the format stored in print values
+  onChange: (value: string) => void;
+}
+
+// Grid input for a list-valued print variable feeding a line-item table
+const TableValueEditor: React.FC<TableValueEditorProps> = ({ columns, maxRows, value, onChange }) => {
+  const rows = parseTableRows(value);
+
+  const update = (next: TableRow[]) => onChange(serializeTableRows(next));
+
+  const handleCellChange = (rowIndex: number, key: string, cellValue: string) => {
+    update(rows.map((r, i) => (i === rowIndex ? { ...r, [key]: cellValue } : r)));
+  };
+
+  return (
+    <div className="bg-white border border-gray-300 rounded-md overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead className="bg-gray-50 text-gray-600">
+          <tr>
+            {columns.map(c => (
+              <th key={c.id} className="px-1.5 py-1 font-medium text-left whitespace-nowrap">{c.header}</th>
+            ))}
+            <th className="w-6"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={i} className="border-t border-gray-100">
+              {columns.map(c => (
+                <td key={c.id} className="p-0.5">
+                  <input
+                    type="text"
+                    inputMode={c.format === 'text' ? 'text' : 'decimal'}
+                    value={row[c.key] || ''}
+                    onChange={(e) => handleCellChange(i, c.key, e.target.value)}
+                    placeholder={c.key === 'amount' ? 'auto' : ''}
+                    className={`w-full min-w-[3rem] border border-transparent hover:border-gray-200 focus:border-indigo-400 rounded px-1 py-1 focus:outline-none ${c.align === 'right' ? 'text-right' : c.align === 'center' ? 'text-center' : ''}`}
+                  />
+                </td>
+              ))}
+              <td className="text-center">
+                <button
+                  type="button"
+                  onClick={() => update(rows.filter((_, idx) => idx !== i))}
+                  className="text-gray-400 hover:text-red-500 p-0.5"
+                  title="Remove row"
+                >
+                  <X size={12} />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        type="button"
+        onClick={() => update([...rows, {}])}
+        disabled={rows.length >= maxRows}
+        className="w-full flex items-center justify-center gap-1 py-1.5 text-xs border-t border-gray-100 text-indigo-600 hover:bg-indigo-50 disabled:text-gray-300 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+      >
+        <Plus size={12} /> Add row ({rows.length}/{maxRows})
+      </button>
+    </div>
+  );
+};
+
+export default TableValueEditor;
@@ -1,32 +1,73 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useSyncExternalStore } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { Router } from 'wouter';
+import { canNavigate } from './services/navigation';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-// Hash Location Hook for robust navigation in sandboxes/iframes
-// Returns [location, navigate]
-const useHashLocation = (): [string, (path: string) => void] => {
-  const [loc, setLoc] = useState(() => window.location.hash.replace(/^#/, "") || "/");
+// --- Hash Location ---
+// One hashchange listener for the whole app (wouter calls the hook once per useLocation),
+// so the leave guard is asked once per route change.
 
-  useEffect(() => {
-    const handler = () => {
-        setLoc(window.location.hash.replace(/^#/, "") || "/");
-    };
+const readHash = () => window.location.hash.replace(/^#/, "") || "/";
 
-    // Subscribe to hash changes
-    window.addEventListener("hashchange", handler);
-    return () => window.removeEventListener("hashchange", handler);
-  }, []);
+// Position of the current history entry, stamped into history.state below
+const getEntryIndex = (): number | undefined => window.history.state?.navIndex;
 
-  const navigate = useCallback((to: string) => {
-    window.location.hash = to;
-  }, []);
+let currentLocation = readHash();
+// Every entry gets a number, so a refused Back/Forward can be undone by stepping the other way
+let entryIndex = getEntryIndex() ?? 0;
+if (getEntryIndex() === undefined) window.history.replaceState({ navIndex: entryIndex }, "");
+let approvedLocation: string | null = null; // Set by navigate(), which asks the guard itself
+const subscribers = new Set<() => void>();
+
+window.addEventListener("hashchange", () => {
+  const next = readHash();
+  const nextIndex = getEntryIndex();
+  const approved = approvedLocation === next;
+  approvedLocation = null;
+  if (next !== currentLocation && !approved && !canNavigate(next)) {
+    if (nextIndex !== undefined) {
+      // Back/Forward to an entry we numbered: step back to where we were, keeping both entries
+      window.history.go(entryIndex - nextIndex);
+    } else {
+      // A new entry (typed URL, plain link): make it the current route again
+      entryIndex += 1;
+      window.history.replaceState({ navIndex: entryIndex }, "", `#${currentLocation}`);
+    }
+    return;
+  }
+  if (nextIndex === undefined) {
+    entryIndex += 1;
+    window.history.replaceState({ navIndex: entryIndex }, "");
+  } else {
+    entryIndex = nextIndex;
+  }
+  currentLocation = next;
+  subscribers.forEach(notify => notify());
+});
+
+const subscribe = (notify: () => void) => {
+  subscribers.add(notify);
+  return () => { subscribers.delete(notify); };
+};
 
+const navigate = (to: string) => {
+  if (to === currentLocation) return;
+  // Refused before any history entry exists, so there is nothing to undo
+  if (!canNavigate(to)) return;
+  approvedLocation = to;
+  window.location.hash = to;
+};
+
+// Hash Location Hook for robust navigation in sandboxes/iframes
+// Returns [location, navigate]
+const useHashLocation = (): [string, (path: string) => void] => {
+  const loc = useSyncExternalStore(subscribe, () => currentLocation);
   return [loc, navigate];
 };
 
@@ -0,0 +1,77 @@
+import { CanvasObject } from '../types';
+import { Box } from './snapping';
+import { getObjectBounds } from './groups';
+
+// --- Align / Distribute ---
+// Works on each object's rotated bounding box, so rotated objects line up by what is drawn.
+// Locked objects never move, but still count towards the selection bounds.
+
+export type AlignAction = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAction = 'horizontal' | 'vertical';
+
+const getSelectionBox = (objects: CanvasObject[]): Box => {
+  const boxes = objects.map(getObjectBounds);
+  const x = Math.min(...boxes.map(b => b.x));
+  const y = Math.min(...boxes.map(b => b.y));
+  return {
+    x, y,
+    width: Math.max(...boxes.map(b => b.x + b.width)) - x,
+    height: Math.max(...boxes.map(b => b.y + b.height)) - y,
+  };
+};
+
+const moveBy = (obj: CanvasObject, dx: number, dy: number): CanvasObject => {
+  return dx === 0 && dy === 0 ? obj : { ...obj, x: obj.x + dx, y: obj.y + dy };
+};
+
+/**
+ * Line up the given objects against an edge or centre line of `target`,
+ * or of the selection itself when no target is given. Returns every object.
+ */
+export const alignObjects = (objects: CanvasObject[], ids: string[], action: AlignAction, target?: Box): CanvasObject[] => {
+  const selected = objects.filter(o => ids.includes(o.id));
+  if (selected.length === 0) return objects;
+  const ref = target || getSelectionBox(selected);
+
+  return objects.map(o => {
+    if (!ids.includes(o.id) || o.locked) return o;
+    const b = getObjectBounds(o);
+    switch (action) {
+      case 'left': return moveBy(o, ref.x - b.x, 0);
+      case 'center': return moveBy(o, ref.x + (ref.width - b.width) / 2 - b.x, 0);
+      case 'right': return moveBy(o, ref.x + ref.width - (b.x + b.width), 0);
+      case 'top': return moveBy(o, 0, ref.y - b.y);
+      case 'middle': return moveBy(o, 0, ref.y + (ref.height - b.height) / 2 - b.y);
+      case 'bottom': return moveBy(o, 0, ref.y + ref.height - (b.y + b.height));
+    }
+  });
+};
+
+/**
+ * Space the given objects so the gaps between neighbours are equal. The outermost
+ * objects stay put, or sit on the edges of `target` when one is given.
+ */
+export const distributeObjects = (objects: CanvasObject[], ids: string[], action: DistributeAction, target?: Box): CanvasObject[] => {
+  const horizontal = action === 'horizontal';
+  const items = objects
+    .filter(o => ids.includes(o.id) && !o.locked)
+    .map(o => ({ obj: o, box: getObjectBounds(o) }))
+    .sort((a, b) => horizontal ? a.box.x - b.box.x : a.box.y - b.box.y);
+  if (items.length < (target ? 2 : 3)) return objects;
+
+  const start = (b: Box) => (horizontal ? b.x : b.y);
+  const size = (b: Box) => (horizontal ? b.width : b.height);
+  const span = target || getSelectionBox(items.map(i => i.obj));
+  const total = items.reduce((sum, i) => sum + size(i.box), 0);
+  const gap = (size(span) - total) / (items.length - 1);
+
+  const moved = new Map<string, CanvasObject>();
+  let pos = start(span);
+  items.forEach(({ obj, box }) => {
+    const delta = pos - start(box);
+    moved.set(obj.id, horizontal ? moveBy(obj, delta, 0) : moveBy(obj, 0, delta));
+    pos += size(box) + gap;
+  });
+
+  return objects.map(o => moved.get(o.id) || o);
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasObject } from '../types';
+import { DEFAULT_MODULE_WIDTH_MM, encodeBarcode, getBarcodeLayout, getEan13CheckDigit } from './barcode';
+import { MM_TO_PX } from './utils';
+
+const barcode = (props: Partial<CanvasObject>): CanvasObject => ({
+  id: 'b1',
+  type: 'barcode',
+  x: 0,
+  y: 0,
+  width: 0,
+  height: 60,
+  ...props,
+});
+
+describe('encodeBarcode', () => {
+  it('encodes Code 128 as start, data, checksum and stop symbols', () => {
+    // 11 modules per symbol, 13 for the stop pattern
+    expect(encodeBarcode('AB', 'CODE128').modules).toHaveLength(4 * 11 + 13);
+  });
+
+  it('packs even-length digit strings two per symbol in Code 128', () => {
+    expect(encodeBarcode('123456', 'CODE128').modules).toHaveLength(5 * 11 + 13);
+    expect(encodeBarcode('12345', 'CODE128').modules).toHaveLength(7 * 11 + 13);
+  });
+
+  it('rejects characters Code 128 cannot carry', () => {
+    expect(() => encodeBarcode('é', 'CODE128')).toThrow('Unsupported character');
+    expect(() => encodeBarcode('', 'CODE128')).toThrow('Value is empty');
+  });
+
+  it('upper-cases Code 39 and wraps it in start/stop characters', () => {
+    const encoded = encodeBarcode('a', 'CODE39');
+    expect(encoded.text).toBe('A');
+    // Three characters of 15 modules, separated by narrow spaces
+    expect(encoded.modules).toHaveLength(3 * 15 + 2);
+    expect(() => encodeBarcode('A*B', 'CODE39')).toThrow('Unsupported character');
+  });
+
+  it('pads ITF to an even number of digits', () => {
+    const encoded = encodeBarcode('123', 'ITF');
+    expect(encoded.text).toBe('0123');
+    expect(encoded.modules).toHaveLength(4 + 2 * 18 + 5);
+    expect(() => encodeBarcode('12A', 'ITF')).toThrow('ITF only encodes digits');
+  });
+
+  it('appends and checks the EAN-13 check digit', () => {
+    expect(getEan13CheckDigit('400638133393')).toBe(1);
+    const encoded = encodeBarcode('400638133393', 'EAN13');
+    expect(encoded.text).toBe('4006381333931');
+    expect(encoded.modules).toHaveLength(95);
+    expect(encodeBarcode('4006381333931', 'EAN13').modules).toBe(encoded.modules);
+    expect(() => encodeBarcode('4006381333932', 'EAN13')).toThrow('Invalid EAN-13 check digit');
+  });
+});
+
+describe('getBarcodeLayout', () => {
+  it('sizes modules physically and adds quiet zones on both sides', () => {
+    const layout = getBarcodeLayout(barcode({ text: '4006381333931', symbology: 'EAN13' }));
+    const moduleWidth = DEFAULT_MODULE_WIDTH_MM * MM_TO_PX;
+    expect(layout.error).toBeUndefined();
+    expect(layout.width).toBeCloseTo((95 + 20) * moduleWidth);
+    expect(layout.bars[0]).toEqual({ x: 10 * moduleWidth, width: moduleWidth });
+  });
+
+  it('merges adjacent dark modules into one bar', () => {
+    const layout = getBarcodeLayout(barcode({ text: '12', symbology: 'ITF', moduleWidth: 1 }));
+    const darkModules = encodeBarcode('12', 'ITF').modules.split('').filter(m => m === '1').length;
+    expect(layout.bars.reduce((sum, b) => sum + b.width, 0)).toBeCloseTo(darkModules * MM_TO_PX);
+    layout.bars.slice(1).forEach((bar, i) => {
+      const prev = layout.bars[i];
+      expect(bar.x).toBeGreaterThan(prev.x + prev.width);
+    });
+  });
+
+  it('leaves room for the human-readable text under the bars', () => {
+    expect(getBarcodeLayout(barcode({ text: 'A', fontSize: 10 })).barHeight).toBe(48);
+    expect(getBarcodeLayout(barcode({ text: 'A', showText: false })).barHeight).toBe(60);
+  });
+
+  it('reports an encoding error instead of throwing', () => {
+    const layout = getBarcodeLayout(barcode({ text: 'abc', symbology: 'EAN13', width: 120 }));
+    expect(layout.bars).toEqual([]);
+    expect(layout.width).toBe(120);
+    expect(layout.error).toMatch('EAN-13');
+  });
+});
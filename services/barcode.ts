@@ -0,0 +1,224 @@
+import { BarcodeSymbology, CanvasObject } from '../types';
+import { MM_TO_PX } from './utils';
+
+// --- Barcode Encoding ---
+// Encoders produce a module string ('1' = bar, '0' = space, one character per narrowest unit).
+// Everything is generated locally so templates work offline and print identically everywhere.
+
+export const BARCODE_LABELS: Record<BarcodeSymbology, string> = {
+  CODE128: 'Code 128',
+  CODE39: 'Code 39',
+  EAN13: 'EAN-13',
+  ITF: 'ITF (Interleaved 2 of 5)',
+};
+
+export const DEFAULT_MODULE_WIDTH_MM = 0.33;
+const QUIET_ZONE_MODULES = 10;
+const WIDE_RATIO = 3; // Wide element width for Code 39 / ITF, in modules
+
+export interface EncodedBarcode {
+  modules: string;
+  text: string; // Human readable text (e.g. EAN-13 including check digit)
+}
+
+// Convert alternating bar/space widths (starting with a bar) to modules
+const widthsToModules = (widths: string): string => {
+  let out = '';
+  for (let i = 0; i < widths.length; i++) {
+    out += (i % 2 === 0 ? '1' : '0').repeat(parseInt(widths[i]));
+  }
+  return out;
+};
+
+// Same for narrow/wide notation
+const narrowWideToModules = (pattern: string): string => {
+  let out = '';
+  for (let i = 0; i < pattern.length; i++) {
+    out += (i % 2 === 0 ? '1' : '0').repeat(pattern[i] === 'w' ? WIDE_RATIO : 1);
+  }
+  return out;
+};
+
+// Code 128 symbol widths, indexed by symbol value (103-105 are start codes A/B/C)
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232',
+];
+const CODE128_STOP = '2331112';
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+
+const encodeCode128 = (value: string): EncodedBarcode => {
+  if (!value) throw new Error('Value is empty');
+
+  // All-digit values of even length pack two digits per symbol using code set C
+  const useSetC = /^\d+$/.test(value) && value.length % 2 === 0;
+  const symbols: number[] = [useSetC ? CODE128_START_C : CODE128_START_B];
+
+  if (useSetC) {
+    for (let i = 0; i < value.length; i += 2) symbols.push(parseInt(value.substr(i, 2)));
+  } else {
+    for (const ch of value) {
+      const code = ch.charCodeAt(0);
+      if (code < 32 || code > 126) throw new Error(`Unsupported character "${ch}"`);
+      symbols.push(code - 32);
+    }
+  }
+
+  const checksum = symbols.reduce((sum, s, i) => sum + s * Math.max(i, 1), 0) % 103;
+  symbols.push(checksum);
+
+  return {
+    modules: symbols.map(s => widthsToModules(CODE128_PATTERNS[s])).join('') + widthsToModules(CODE128_STOP),
+    text: value,
+  };
+};
+
+// Code 39 narrow/wide patterns (bar, space, bar, ...)
+const CODE39_PATTERNS: Record<string, string> = {
+  '0': 'nnnwwnwnn', '1': 'wnnwnnnnw', '2': 'nnwwnnnnw', '3': 'wnwwnnnnn', '4': 'nnnwwnnnw',
+  '5': 'wnnwwnnnn', '6': 'nnwwwnnnn', '7': 'nnnwnnwnw', '8': 'wnnwnnwnn', '9': 'nnwwnnwnn',
+  'A': 'wnnnnwnnw', 'B': 'nnwnnwnnw', 'C': 'wnwnnwnnn', 'D': 'nnnnwwnnw', 'E': 'wnnnwwnnn',
+  'F': 'nnwnwwnnn', 'G': 'nnnnnwwnw', 'H': 'wnnnnwwnn', 'I': 'nnwnnwwnn', 'J': 'nnnnwwwnn',
+  'K': 'wnnnnnnww', 'L': 'nnwnnnnww', 'M': 'wnwnnnnwn', 'N': 'nnnnwnnww', 'O': 'wnnnwnnwn',
+  'P': 'nnwnwnnwn', 'Q': 'nnnnnnwww', 'R': 'wnnnnnwwn', 'S': 'nnwnnnwwn', 'T': 'nnnnwnwwn',
+  'U': 'wwnnnnnnw', 'V': 'nwwnnnnnw', 'W': 'wwwnnnnnn', 'X': 'nwnnwnnnw', 'Y': 'wwnnwnnnn',
+  'Z': 'nwwnwnnnn', '-': 'nwnnnnwnw', '.': 'wwnnnnwnn', ' ': 'nwwnnnwnn', '$': 'nwnwnwnnn',
+  '/': 'nwnwnnnwn', '+': 'nwnnnwnwn', '%': 'nnnwnwnwn', '*': 'nwnnwnwnn',
+};
+
+const encodeCode39 = (value: string): EncodedBarcode => {
+  const upper = value.toUpperCase();
+  if (!upper) throw new Error('Value is empty');
+  for (const ch of upper) {
+    if (!CODE39_PATTERNS[ch] || ch === '*') throw new Error(`Unsupported character "${ch}"`);
+  }
+  // '*' is the start/stop character; characters are separated by a narrow space
+  const modules = `*${upper}*`.split('').map(ch => narrowWideToModules(CODE39_PATTERNS[ch])).join('0');
+  return { modules, text: upper };
+};
+
+// 2-of-5 digit patterns shared by ITF
+const ITF_PATTERNS = ['nnwwn', 'wnnnw', 'nwnnw', 'wwnnn', 'nnwnw', 'wnwnn', 'nwwnn', 'nnnww', 'wnnwn', 'nwnwn'];
+
+const encodeITF = (value: string): EncodedBarcode => {
+  if (!/^\d+$/.test(value)) throw new Error('ITF only encodes digits');
+  const digits = value.length % 2 === 0 ? value : '0' + value; // Digits are encoded in pairs
+
+  let pattern = 'nnnn'; // Start: bar, space, bar, space
+  for (let i = 0; i < digits.length; i += 2) {
+    const bars = ITF_PATTERNS[parseInt(digits[i])];
+    const spaces = ITF_PATTERNS[parseInt(digits[i + 1])];
+    for (let j = 0; j < 5; j++) pattern += bars[j] + spaces[j];
+  }
+  pattern += 'wnn'; // Stop: wide bar, space, bar
+
+  return { modules: narrowWideToModules(pattern), text: digits };
+};
+
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_R = EAN_L.map(p => p.split('').map(b => (b === '1' ? '0' : '1')).join(''));
+const EAN_G = EAN_R.map(p => p.split('').reverse().join(''));
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+export const getEan13CheckDigit = (digits12: string): number => {
+  const sum = digits12.split('').reduce((acc, d, i) => acc + parseInt(d) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+const encodeEAN13 = (value: string): EncodedBarcode => {
+  if (!/^\d{12,13}$/.test(value)) throw new Error('EAN-13 needs 12 digits (or 13 with check digit)');
+  const check = getEan13CheckDigit(value.slice(0, 12));
+  if (value.length === 13 && parseInt(value[12]) !== check) throw new Error('Invalid EAN-13 check digit');
+  const digits = value.slice(0, 12) + check;
+
+  const parity = EAN_PARITY[parseInt(digits[0])];
+  let modules = '101';
+  for (let i = 1; i <= 6; i++) {
+    const d = parseInt(digits[i]);
+    modules += parity[i - 1] === 'L' ? EAN_L[d] : EAN_G[d];
+  }
+  modules += '01010';
+  for (let i = 7; i <= 12; i++) modules += EAN_R[parseInt(digits[i])];
+  modules += '101';
+
+  return { modules, text: digits };
+};
+
+export const encodeBarcode = (value: string, symbology: BarcodeSymbology): EncodedBarcode => {
+  switch (symbology) {
+    case 'CODE39': return encodeCode39(value);
+    case 'ITF': return encodeITF(value);
+    case 'EAN13': return encodeEAN13(value);
+    default: return encodeCode128(value);
+  }
+};
+
+// --- Layout ---
+
+export interface BarcodeBar {
+  x: number;
+  width: number;
+}
+
+export interface BarcodeLayout {
+  bars: BarcodeBar[];
+  width: number; // Total width including quiet zones, canvas px
+  barHeight: number;
+  textSize: number;
+  text: string;
+  error?: string;
+}
+
+export const getModuleWidthPx = (obj: CanvasObject): number => {
+  return (obj.moduleWidth ?? DEFAULT_MODULE_WIDTH_MM) * MM_TO_PX;
+};
+
+/**
+ * Resolve a barcode object into bar rectangles in object-local canvas px.
+ * The object's width is derived from the encoding so modules always keep their physical size.
+ */
+export const getBarcodeLayout = (obj: CanvasObject): BarcodeLayout => {
+  const moduleWidth = getModuleWidthPx(obj);
+  const height = obj.height || 60;
+  const textSize = obj.showText !== false ? obj.fontSize || 12 : 0;
+  const barHeight = Math.max(1, height - textSize * 1.2);
+
+  let encoded: EncodedBarcode;
+  try {
+    encoded = encodeBarcode(obj.text || '', obj.symbology || 'CODE128');
+  } catch (e: any) {
+    return { bars: [], width: obj.width, barHeight, textSize, text: obj.text || '', error: e.message };
+  }
+
+  const bars: BarcodeBar[] = [];
+  const quiet = QUIET_ZONE_MODULES * moduleWidth;
+  let i = 0;
+  while (i < encoded.modules.length) {
+    if (encoded.modules[i] === '1') {
+      let j = i;
+      while (j < encoded.modules.length && encoded.modules[j] === '1') j++;
+      bars.push({ x: quiet + i * moduleWidth, width: (j - i) * moduleWidth });
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  return {
+    bars,
+    width: encoded.modules.length * moduleWidth + quiet * 2,
+    barHeight,
+    textSize,
+    text: encoded.text,
+  };
+};
@@ -0,0 +1,87 @@
+import { CanvasObject, FontAsset } from '../types';
+import { generateId } from './utils';
+import { getAllObjects, withFreshIds } from './groups';
+import { loadFontData, storeFontData } from './storageService';
+
+// --- Object Clipboard ---
+// Copied objects are serialized to localStorage so another tab (another template) can paste them.
+// Falls back to memory when the payload does not fit (e.g. large embedded images).
+// Custom fonts the objects use travel along; their files go through IndexedDB, as drafts do.
+
+const LS_CLIPBOARD_KEY = 'print_anything_clipboard';
+const CLIPBOARD_FORMAT = 'nexusprint/objects';
+const CLIPBOARD_VERSION = 2;
+
+export const PASTE_OFFSET = 10; // px, per repeated paste into the same template
+
+export interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  id: string; // Distinguishes one copy from the next
+  sourceSessionId: string; // Editor the objects were copied in (unsaved templates share the id 'new')
+  objects: CanvasObject[];
+  fonts: FontAsset[]; // Custom fonts the objects use, from the source template
+}
+
+let memoryClipboard: ClipboardPayload | null = null;
+
+export const writeClipboard = (objects: CanvasObject[], sourceSessionId: string, templateFonts: FontAsset[] = []): ClipboardPayload => {
+  const families = new Set(getAllObjects(objects).map(o => o.fontFamily));
+  const fonts = templateFonts.filter(f => families.has(f.family));
+  const payload: ClipboardPayload = {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    id: generateId(),
+    sourceSessionId,
+    objects,
+    fonts,
+  };
+  memoryClipboard = payload;
+  try {
+    storeFontData(fonts).catch(e => console.warn('Clipboard fonts could not be stored for other tabs', e));
+    localStorage.setItem(LS_CLIPBOARD_KEY, JSON.stringify({ ...payload, fonts: fonts.map(f => ({ ...f, data: '' })) }));
+  } catch (e) {
+    console.warn('Clipboard too large for storage, pasting is limited to this tab', e);
+    localStorage.removeItem(LS_CLIPBOARD_KEY);
+  }
+  return payload;
+};
+
+export const readClipboard = (): ClipboardPayload | null => {
+  try {
+    const stored = localStorage.getItem(LS_CLIPBOARD_KEY);
+    if (stored) {
+      const payload = JSON.parse(stored);
+      if (payload?.format === CLIPBOARD_FORMAT && payload.version === CLIPBOARD_VERSION && Array.isArray(payload.objects)) {
+        // This tab's own copy still holds the font files
+        return memoryClipboard?.id === payload.id ? memoryClipboard : payload;
+      }
+    }
+  } catch (e) {
+    console.warn('Ignoring unreadable clipboard', e);
+  }
+  return memoryClipboard;
+};
+
+// Fonts to add to the target template: the payload's fonts it has no family of yet, with their files
+export const getMissingFonts = async (payload: ClipboardPayload, templateFonts: FontAsset[] = []): Promise<FontAsset[]> => {
+  const missing = (payload.fonts || []).filter(f => !templateFonts.some(t => t.family === f.family));
+  if (missing.length === 0) return [];
+  // A file that never reached IndexedDB cannot come along; the text falls back to the default font
+  return (await loadFontData(missing)).filter(f => f.data);
+};
+
+/**
+ * Copies of `objects` with fresh ids, shifted by `offset` px and stacked on top of
+ * everything from `baseZIndex` up, keeping their relative order.
+ */
+export const cloneObjects = (objects: CanvasObject[], offset: number, baseZIndex: number): CanvasObject[] => {
+  return [...objects]
+    .sort((a, b) => (a.zIndex ?? 0) - (b.zIndex ?? 0))
+    .map((obj, i) => ({
+      ...withFreshIds(obj),
+      x: obj.x + offset,
+      y: obj.y + offset,
+      zIndex: baseZIndex + i,
+    }));
+};
@@ -0,0 +1,83 @@
+import { FontAsset } from '../types';
+import { generateId } from './utils';
+
+// --- Custom Fonts ---
+// Uploaded fonts travel inside the template (CanvasSettings.fonts) as data URLs.
+// They are registered with document.fonts for Konva and the live page, and also
+// emitted as @font-face rules because html2canvas renders into a cloned document.
+
+export const BUILT_IN_FONTS = ['Arial', 'Times New Roman', 'Courier New', 'Inter'];
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+const MAX_FONT_FILE_SIZE = 15 * 1024 * 1024; // Full CJK fonts run to ~10 MB
+
+const FONT_FORMATS: Record<string, FontAsset['format']> = {
+  ttf: 'truetype',
+  otf: 'opentype',
+  woff: 'woff',
+  woff2: 'woff2',
+};
+
+// Family name from the file name, e.g. "OCR-B_Regular.ttf" -> "OCR-B Regular"
+const familyFromFileName = (fileName: string) => {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[_]+/g, ' ').trim() || 'Custom Font';
+};
+
+export const readFontFile = (file: File): Promise<FontAsset> => {
+  return new Promise((resolve, reject) => {
+    const ext = file.name.split('.').pop()?.toLowerCase() || '';
+    const format = FONT_FORMATS[ext];
+    if (!format) {
+      reject(new Error('Unsupported font file. Use TTF, OTF, WOFF or WOFF2.'));
+      return;
+    }
+    if (file.size > MAX_FONT_FILE_SIZE) {
+      reject(new Error('Font file is too large (15 MB max).'));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => resolve({
+      id: generateId(),
+      family: familyFromFileName(file.name),
+      fileName: file.name,
+      format,
+      data: reader.result as string,
+    });
+    reader.onerror = () => reject(new Error('Could not read the font file.'));
+    reader.readAsDataURL(file);
+  });
+};
+
+// Registered faces by asset id, so re-renders and repeated loads are free
+const loadedFaces = new Map<string, Promise<void>>();
+
+const loadFont = (font: FontAsset): Promise<void> => {
+  let pending = loadedFaces.get(font.id);
+  if (!pending) {
+    const face = new FontFace(font.family, `url(${font.data}) format('${font.format}')`);
+    pending = face.load()
+      .then(loaded => { document.fonts.add(loaded); })
+      .catch(e => {
+        console.warn(`Font "${font.family}" could not be loaded`, e);
+        loadedFaces.delete(font.id);
+      });
+    loadedFaces.set(font.id, pending);
+  }
+  return pending;
+};
+
+export const loadFonts = (fonts: FontAsset[] | undefined): Promise<void> => {
+  return Promise.all((fonts || []).map(loadFont)).then(() => undefined);
+};
+
+// Resolves once every font the page uses has finished loading (call before print / capture)
+export const waitForFonts = async (fonts?: FontAsset[]): Promise<void> => {
+  await loadFonts(fonts);
+  await document.fonts.ready;
+};
+
+export const getFontFaceCss = (fonts: FontAsset[] | undefined): string => {
+  return (fonts || [])
+    .map(f => `@font-face { font-family: ${JSON.stringify(f.family)}; src: url(${f.data}) format('${f.format}'); }`)
+    .join('\n');
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasObject } from '../types';
+import { flattenObjects, getObjectBounds, groupObjects, normalizeGroup, scaleObject, ungroupObjects } from './groups';
+
+const rect = (id: string, props: Partial<CanvasObject> = {}): CanvasObject => ({
+  id,
+  type: 'shape',
+  shapeKind: 'rect',
+  x: 0,
+  y: 0,
+  width: 10,
+  height: 10,
+  ...props,
+});
+
+const group = (id: string, children: CanvasObject[], props: Partial<CanvasObject> = {}): CanvasObject => ({
+  id,
+  type: 'group',
+  x: 0,
+  y: 0,
+  width: 0,
+  height: 0,
+  children,
+  ...props,
+});
+
+describe('getObjectBounds', () => {
+  it('is the object box when unrotated', () => {
+    expect(getObjectBounds(rect('a', { x: 5, y: 7, width: 20, height: 10 }))).toEqual({ x: 5, y: 7, width: 20, height: 10 });
+  });
+
+  it('covers the rotated corners', () => {
+    const bounds = getObjectBounds(rect('a', { x: 50, y: 50, width: 20, height: 10, rotation: 90 }));
+    expect(bounds.x).toBeCloseTo(40);
+    expect(bounds.y).toBeCloseTo(50);
+    expect(bounds.width).toBeCloseTo(10);
+    expect(bounds.height).toBeCloseTo(20);
+  });
+});
+
+describe('groupObjects', () => {
+  it('wraps the members at their union bounds with group-local children', () => {
+    const scope = [rect('a', { x: 10, y: 20, zIndex: 0 }), rect('b', { x: 30, y: 50, zIndex: 1 }), rect('c', { zIndex: 2 })];
+    const { objects, group: created } = groupObjects(scope, ['a', 'b']);
+    expect(created).toMatchObject({ type: 'group', x: 10, y: 20, width: 30, height: 40 });
+    expect(created!.children!.map(c => [c.id, c.x, c.y, c.zIndex])).toEqual([['a', 0, 0, 0], ['b', 20, 30, 1]]);
+    expect(objects.map(o => o.id)).toEqual([created!.id, 'c']);
+  });
+
+  it('needs at least two objects', () => {
+    const scope = [rect('a'), rect('b')];
+    expect(groupObjects(scope, ['a'])).toEqual({ objects: scope, group: null });
+  });
+});
+
+describe('ungroupObjects', () => {
+  it('puts children back in page coordinates, in the group place in the stack', () => {
+    const scope = [
+      rect('below', { zIndex: 0 }),
+      group('g', [rect('a', { x: 0, y: 0, zIndex: 0 }), rect('b', { x: 20, y: 30, zIndex: 1 })], { x: 10, y: 20, zIndex: 1 }),
+      rect('above', { zIndex: 2 }),
+    ];
+    const { objects, released } = ungroupObjects(scope, ['g']);
+    expect(released).toEqual(['a', 'b']);
+    expect(objects.map(o => [o.id, o.x, o.y, o.zIndex])).toEqual([
+      ['below', 0, 0, 0], ['a', 10, 20, 1], ['b', 30, 50, 2], ['above', 0, 0, 3],
+    ]);
+  });
+
+  it('turns children by the group rotation', () => {
+    const { objects } = ungroupObjects([group('g', [rect('a', { x: 10, y: 0 })], { x: 100, y: 100, rotation: 90 })], ['g']);
+    expect(objects[0].x).toBeCloseTo(100);
+    expect(objects[0].y).toBeCloseTo(110);
+    expect(objects[0].rotation).toBe(90);
+  });
+
+  it('keeps the group hidden, design-only, lock and opacity on its children', () => {
+    const scope = [group('g', [rect('a', { opacity: 0.5 }), rect('b', { locked: true })], { hidden: true, designOnly: true, opacity: 0.5 })];
+    const { objects } = ungroupObjects(scope, ['g']);
+    expect(objects[0]).toMatchObject({ hidden: true, designOnly: true, opacity: 0.25 });
+    expect(objects[1]).toMatchObject({ hidden: true, designOnly: true, locked: true, opacity: 0.5 });
+  });
+
+  it('leaves groups that were not asked for', () => {
+    const inner = group('g', [rect('a'), rect('b')]);
+    expect(ungroupObjects([inner], ['other']).objects).toEqual([{ ...inner, zIndex: 0 }]);
+  });
+});
+
+describe('flattenObjects', () => {
+  it('lists leaves of nested groups in paint order with page coordinates', () => {
+    const nested = group('inner', [rect('b', { x: 5, y: 5, zIndex: 0 })], { x: 10, y: 10, zIndex: 1 });
+    const outer = group('outer', [rect('a', { zIndex: 0 }), nested], { x: 100, y: 200, zIndex: 0, locked: true });
+    const flat = flattenObjects([rect('top', { zIndex: 1 }), outer]);
+    expect(flat.map(o => [o.id, o.x, o.y, o.zIndex])).toEqual([['a', 100, 200, 0], ['b', 115, 215, 1], ['top', 0, 0, 2]]);
+    expect(flat[1].locked).toBe(true);
+  });
+});
+
+describe('normalizeGroup', () => {
+  it('moves the group origin to the top-left of its children', () => {
+    const moved = normalizeGroup(group('g', [rect('a', { x: 5, y: 10 }), rect('b', { x: 25, y: 30 })], { x: 100, y: 100 }));
+    expect(moved).toMatchObject({ x: 105, y: 110, width: 30, height: 30 });
+    expect(moved.children!.map(c => [c.x, c.y])).toEqual([[0, 0], [20, 20]]);
+  });
+});
+
+describe('scaleObject', () => {
+  it('scales a group and its children together', () => {
+    const scaled = scaleObject(group('g', [rect('a', { x: 10, y: 10, width: 10, height: 20 })], { x: 4, y: 6, width: 20, height: 30 }), 2, 3);
+    expect(scaled).toMatchObject({ x: 8, y: 18, width: 40, height: 90 });
+    expect(scaled.children![0]).toMatchObject({ x: 20, y: 30, width: 20, height: 60 });
+  });
+
+  it('keeps barcode modules at their physical width and QR codes square', () => {
+    expect(scaleObject(rect('b', { type: 'barcode', width: 100, height: 60, moduleWidth: 0.33 }), 2, 2)).toMatchObject({ width: 100, height: 120, moduleWidth: 0.33 });
+    expect(scaleObject(rect('q', { type: 'qrcode', width: 100, height: 100 }), 2, 3)).toMatchObject({ width: 200, height: 200 });
+  });
+});
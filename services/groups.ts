@@ -0,0 +1,245 @@
+import { CanvasObject } from '../types';
+import { normalizeStackingOrder, sortByStackingOrder } from './layers';
+import { generateId } from './utils';
+import { Box } from './snapping';
+import { getLineHeight } from './textStyle';
+import { DEFAULT_COMB_PITCH_MM, getCombLayout, getFittedText, getVerticalLayout, hasFitMode, isCombText, isVerticalText, wrapLines } from './textLayout';
+
+// --- Groups ---
+// A group's children are stored in group-local coordinates: (0, 0) is the group's (x, y),
+// and the group's rotation turns its children around that point. Groups can nest.
+
+const rotatePoint = (x: number, y: number, deg: number) => {
+  if (!deg) return { x, y };
+  const rad = (deg * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+};
+
+// Height of an object as drawn; auto-height text has no stored height, so measure its wrapped lines
+export const getObjectHeight = (obj: CanvasObject): number => {
+  if (isVerticalText(obj)) return getVerticalLayout(obj).height;
+  if (isCombText(obj)) return getCombLayout(obj).height;
+  if (obj.type === 'text') {
+    if (obj.height !== undefined) return obj.height;
+    const fontSize = obj.fontSize || 16;
+    const { lines, fontSize: drawnSize } = hasFitMode(obj) ? getFittedText(obj) : { lines: wrapLines(obj.text || '', obj, fontSize), fontSize };
+    return lines.length * drawnSize * getLineHeight(obj);
+  }
+  return obj.height || 0;
+};
+
+// Axis-aligned bounds of an object in its parent's coordinates, accounting for rotation
+export const getObjectBounds = (obj: CanvasObject): Box => {
+  const corners = [
+    [0, 0], [obj.width, 0], [0, getObjectHeight(obj)], [obj.width, getObjectHeight(obj)],
+  ].map(([cx, cy]) => {
+    const p = rotatePoint(cx, cy, obj.rotation || 0);
+    return { x: obj.x + p.x, y: obj.y + p.y };
+  });
+  const xs = corners.map(c => c.x);
+  const ys = corners.map(c => c.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+const getUnionBounds = (objects: CanvasObject[]): Box => {
+  const boxes = objects.map(getObjectBounds);
+  const x = Math.min(...boxes.map(b => b.x));
+  const y = Math.min(...boxes.map(b => b.y));
+  return {
+    x, y,
+    width: Math.max(...boxes.map(b => b.x + b.width)) - x,
+    height: Math.max(...boxes.map(b => b.y + b.height)) - y,
+  };
+};
+
+// Express a child in the group's parent coordinates
+const toParentSpace = (group: CanvasObject, child: CanvasObject): CanvasObject => {
+  const p = rotatePoint(child.x, child.y, group.rotation || 0);
+  const rotation = (group.rotation || 0) + (child.rotation || 0);
+  return { ...child, x: group.x + p.x, y: group.y + p.y, rotation: rotation || undefined };
+};
+
+// A child as it looks outside its group: visibility, design-only, lock and opacity carry down
+const inheritGroupState = (group: CanvasObject, child: CanvasObject): CanvasObject => ({
+  ...toParentSpace(group, child),
+  hidden: group.hidden || child.hidden,
+  designOnly: group.designOnly || child.designOnly,
+  locked: group.locked || child.locked,
+  opacity: (group.opacity ?? 1) * (child.opacity ?? 1),
+});
+
+// Keep the group's origin at the top-left of its children after they moved or resized
+export const normalizeGroup = (group: CanvasObject): CanvasObject => {
+  const children = group.children || [];
+  if (children.length === 0) return group;
+  const bounds = getUnionBounds(children);
+  const shift = rotatePoint(bounds.x, bounds.y, group.rotation || 0);
+  return {
+    ...group,
+    x: group.x + shift.x,
+    y: group.y + shift.y,
+    width: bounds.width,
+    height: bounds.height,
+    children: (bounds.x === 0 && bounds.y === 0)
+      ? children
+      : children.map(c => ({ ...c, x: c.x - bounds.x, y: c.y - bounds.y })),
+  };
+};
+
+/**
+ * Every leaf object in paint order with page coordinates, as printed.
+ * Group visibility, design-only, lock and opacity carry down to the children.
+ */
+export const flattenObjects = (objects: CanvasObject[]): CanvasObject[] => {
+  const result: CanvasObject[] = [];
+  const walk = (list: CanvasObject[], parent: CanvasObject | null) => {
+    sortByStackingOrder(list).forEach(obj => {
+      const placed = parent ? inheritGroupState(parent, obj) : obj;
+      if (placed.type === 'group') {
+        walk(placed.children || [], placed);
+      } else {
+        result.push({ ...placed, zIndex: result.length });
+      }
+    });
+  };
+  walk(objects, null);
+  return result;
+};
+
+// Every object at any depth, groups included (no coordinate changes)
+export const getAllObjects = (objects: CanvasObject[]): CanvasObject[] => {
+  return objects.flatMap(o => (o.type === 'group' ? [o, ...getAllObjects(o.children || [])] : [o]));
+};
+
+export const findObjectsDeep = (objects: CanvasObject[], ids: string[]): CanvasObject[] => {
+  return getAllObjects(objects).filter(o => ids.includes(o.id));
+};
+
+// Apply `fn` to every non-group object at any depth; groups re-fit whatever changed inside them
+export const mapLeafObjects = (objects: CanvasObject[], fn: (obj: CanvasObject) => CanvasObject): CanvasObject[] => {
+  return objects.map(o => (o.type === 'group' ? normalizeGroup({ ...o, children: mapLeafObjects(o.children || [], fn) }) : fn(o)));
+};
+
+// --- Editing Scope ---
+// While a group is entered, selection and editing work on its children; otherwise on the page.
+
+export const getScopeObjects = (objects: CanvasObject[], groupId: string | null): CanvasObject[] => {
+  if (!groupId) return objects;
+  const group = getAllObjects(objects).find(o => o.id === groupId);
+  return group?.children || [];
+};
+
+export const replaceScopeObjects = (objects: CanvasObject[], groupId: string | null, scope: CanvasObject[]): CanvasObject[] => {
+  if (!groupId) return scope;
+  return objects.map(o => {
+    if (o.type !== 'group') return o;
+    if (o.id === groupId) return normalizeGroup({ ...o, children: scope });
+    if (!getAllObjects(o.children || []).some(c => c.id === groupId)) return o;
+    return normalizeGroup({ ...o, children: replaceScopeObjects(o.children || [], groupId, scope) });
+  });
+};
+
+// Chain of group ids from the page down to `groupId`
+export const getGroupPath = (objects: CanvasObject[], groupId: string | null): CanvasObject[] => {
+  if (!groupId) return [];
+  for (const o of objects) {
+    if (o.type !== 'group') continue;
+    if (o.id === groupId) return [o];
+    const rest = getGroupPath(o.children || [], groupId);
+    if (rest.length > 0) return [o, ...rest];
+  }
+  return [];
+};
+
+// --- Group / Ungroup ---
+
+// Wrap the given objects in a new group placed where the top-most of them was
+export const groupObjects = (scope: CanvasObject[], ids: string[]): { objects: CanvasObject[]; group: CanvasObject | null } => {
+  const members = sortByStackingOrder(scope.filter(o => ids.includes(o.id)));
+  if (members.length < 2) return { objects: scope, group: null };
+
+  const bounds = getUnionBounds(members);
+  const group: CanvasObject = {
+    id: generateId(),
+    type: 'group',
+    x: bounds.x,
+    y: bounds.y,
+    width: bounds.width,
+    height: bounds.height,
+    zIndex: members[members.length - 1].zIndex,
+    children: members.map((o, i) => ({ ...o, x: o.x - bounds.x, y: o.y - bounds.y, zIndex: i })),
+  };
+  const rest = scope.filter(o => !ids.includes(o.id));
+  return { objects: normalizeStackingOrder([...rest, group]), group };
+};
+
+// Replace groups by their children, in the group's place in the stack
+export const ungroupObjects = (scope: CanvasObject[], ids: string[]): { objects: CanvasObject[]; released: string[] } => {
+  const released: string[] = [];
+  const result: CanvasObject[] = [];
+  sortByStackingOrder(scope).forEach(o => {
+    if (o.type === 'group' && ids.includes(o.id)) {
+      sortByStackingOrder(o.children || []).forEach(child => {
+        released.push(child.id);
+        result.push(inheritGroupState(o, child));
+      });
+    } else {
+      result.push(o);
+    }
+  });
+  return { objects: result.map((o, i) => ({ ...o, zIndex: i })), released };
+};
+
+// --- Scaling ---
+
+// Resize an object (and a group's children) by the given factors, as a group transform does
+export const scaleObject = (obj: CanvasObject, sx: number, sy: number): CanvasObject => {
+  const base = { ...obj, x: obj.x * sx, y: obj.y * sy };
+  const fontSize = obj.fontSize ? obj.fontSize * sy : obj.fontSize;
+  switch (obj.type) {
+    case 'group':
+      return {
+        ...base,
+        width: obj.width * sx,
+        height: (obj.height || 0) * sy,
+        children: (obj.children || []).map(c => scaleObject(c, sx, sy)),
+      };
+    case 'text':
+      return {
+        ...base,
+        width: obj.width * sx,
+        height: obj.height !== undefined ? obj.height * sy : obj.height,
+        letterSpacing: obj.letterSpacing ? obj.letterSpacing * sx : obj.letterSpacing,
+        minFontSize: obj.minFontSize ? obj.minFontSize * sy : obj.minFontSize,
+        combPitch: obj.combCells ? (obj.combPitch || DEFAULT_COMB_PITCH_MM) * sx : obj.combPitch,
+        fontSize,
+      };
+    case 'barcode':
+      // Module width is physical, so only the bar height follows the group
+      return { ...base, height: (obj.height || 60) * sy, fontSize };
+    case 'qrcode': {
+      const size = obj.width * Math.min(sx, sy);
+      return { ...base, width: size, height: size };
+    }
+    case 'table':
+      return {
+        ...base,
+        columns: (obj.columns || []).map(c => ({ ...c, width: c.width * sx })),
+        rowHeight: obj.rowHeight ? obj.rowHeight * sy : obj.rowHeight,
+        fontSize,
+      };
+    default:
+      return { ...base, width: obj.width * sx, height: obj.height !== undefined ? obj.height * sy : obj.height };
+  }
+};
+
+// Fresh ids for an object and everything inside it (copies must never share ids)
+export const withFreshIds = (obj: CanvasObject): CanvasObject => ({
+  ...obj,
+  id: generateId(),
+  children: obj.children ? obj.children.map(withFreshIds) : obj.children,
+});
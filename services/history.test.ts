@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasObject, CanvasSettings } from '../types';
+import {
+  EMPTY_HISTORY,
+  EditorDocument,
+  HistoryEntry,
+  HistoryState,
+  MAX_HISTORY,
+  applyHistoryEntry,
+  createHistoryEntry,
+  jumpToHistoryIndex,
+  pushHistoryEntry,
+} from './history';
+
+const settings: CanvasSettings = { width: 756, height: 378, unit: 'mm', widthUnit: 200, heightUnit: 100, dpi: 96 };
+
+const text = (id: string, props: Partial<CanvasObject> = {}): CanvasObject => ({
+  id,
+  type: 'text',
+  x: 0,
+  y: 0,
+  width: 100,
+  text: id,
+  ...props,
+});
+
+const doc = (objects: CanvasObject[], props: Partial<EditorDocument> = {}): EditorDocument => ({
+  objects,
+  settings,
+  name: 'Cheque',
+  isPublic: false,
+  ...props,
+});
+
+// Record each document after the first as one step
+const record = (docs: EditorDocument[]): HistoryState => {
+  let state = EMPTY_HISTORY;
+  for (let i = 1; i < docs.length; i++) {
+    state = pushHistoryEntry(state, createHistoryEntry(docs[i - 1], docs[i])!);
+  }
+  return state;
+};
+
+describe('createHistoryEntry', () => {
+  it('returns null when nothing changed', () => {
+    const objects = [text('a')];
+    expect(createHistoryEntry(doc(objects), doc(objects))).toBeNull();
+    expect(createHistoryEntry(doc([text('a')]), doc([text('a')]))).toBeNull();
+  });
+
+  it('records only the objects that changed', () => {
+    const b = text('b');
+    const entry = createHistoryEntry(doc([text('a'), b]), doc([text('a', { x: 5 }), b]))!;
+    expect(entry.objects?.map(c => c.id)).toEqual(['a']);
+    expect(entry.order).toBeUndefined();
+  });
+
+  it('derives a label from what changed', () => {
+    const before = doc([text('Amount')]);
+    const label = (after: EditorDocument) => createHistoryEntry(before, after)!.label;
+    expect(label(doc([text('Amount', { x: 5, y: 5 })]))).toBe('Move "Amount"');
+    expect(label(doc([text('Amount', { width: 50 })]))).toBe('Resize "Amount"');
+    expect(label(doc([text('Amount', { locked: true })]))).toBe('Lock "Amount"');
+    expect(label(doc([text('Amount', { fontFamily: 'Courier' })]))).toBe('Change font family of "Amount"');
+    expect(label(doc([text('Amount'), text('Date')]))).toBe('Add "Date"');
+    expect(label(doc([]))).toBe('Delete "Amount"');
+    expect(label(doc(before.objects, { settings: { ...settings, gridSize: 2 } }))).toBe('Change grid size');
+    expect(label(doc(before.objects, { name: 'Invoice' }))).toBe('Rename template');
+  });
+
+  it('keeps an explicit label', () => {
+    expect(createHistoryEntry(doc([]), doc([text('a')]), 'Paste')!.label).toBe('Paste');
+  });
+});
+
+describe('pushHistoryEntry', () => {
+  it('discards undone steps when a new one is added', () => {
+    const docs = [doc([]), doc([text('a')]), doc([text('a'), text('b')])];
+    const state = { ...record(docs), index: 1 };
+    const next = pushHistoryEntry(state, createHistoryEntry(docs[1], doc([text('c')]))!);
+    expect(next.entries).toHaveLength(2);
+    expect(next.index).toBe(2);
+    expect(next.entries[1].label).toBe('Edit objects');
+  });
+
+  it('merges quick repeats of a mergeable edit into one step', () => {
+    const docs = [doc([text('a')]), doc([text('a', { text: 'ab' })]), doc([text('a', { text: 'abc' })])];
+    let state = EMPTY_HISTORY;
+    state = pushHistoryEntry(state, createHistoryEntry(docs[0], docs[1], 'Typing', true)!);
+    state = pushHistoryEntry(state, createHistoryEntry(docs[1], docs[2], 'Typing', true)!);
+    expect(state.entries).toHaveLength(1);
+    expect(applyHistoryEntry(docs[2], state.entries[0], 'undo')).toEqual(docs[0]);
+  });
+
+  it('does not merge steps that are far apart in time', () => {
+    const first = createHistoryEntry(doc([text('a')]), doc([text('a', { x: 1 })]), 'Nudge', true)!;
+    const second: HistoryEntry = { ...createHistoryEntry(doc([text('a', { x: 1 })]), doc([text('a', { x: 2 })]), 'Nudge', true)!, time: first.time + 5000 };
+    const state = pushHistoryEntry(pushHistoryEntry(EMPTY_HISTORY, first), second);
+    expect(state.entries).toHaveLength(2);
+  });
+
+  it('drops the oldest steps at the cap and remembers it', () => {
+    const docs = Array.from({ length: MAX_HISTORY + 2 }, (_, i) => doc([text('a', { x: i })]));
+    const state = record(docs);
+    expect(state.entries).toHaveLength(MAX_HISTORY);
+    expect(state.index).toBe(MAX_HISTORY);
+    expect(state.dropped).toBe(true);
+    expect(record(docs.slice(0, 3)).dropped).toBe(false);
+  });
+});
+
+describe('applyHistoryEntry', () => {
+  it('undoes and redoes additions, deletions and reordering', () => {
+    const before = doc([text('a'), text('b')]);
+    const after = doc([text('c'), text('b', { x: 10 })]);
+    const entry = createHistoryEntry(before, after)!;
+    expect(applyHistoryEntry(after, entry, 'undo')).toEqual(before);
+    expect(applyHistoryEntry(before, entry, 'redo')).toEqual(after);
+  });
+
+  it('leaves objects the step did not touch as they are now', () => {
+    const entry = createHistoryEntry(doc([text('a'), text('b')]), doc([text('a', { x: 5 }), text('b')]))!;
+    const current = doc([text('a', { x: 5 }), text('b', { y: 20 })]);
+    expect(applyHistoryEntry(current, entry, 'undo').objects).toEqual([text('a'), text('b', { y: 20 })]);
+  });
+
+  it('restores settings, name and visibility', () => {
+    const before = doc([]);
+    const after = doc([], { settings: { ...settings, unit: 'in' }, name: 'Invoice', isPublic: true });
+    expect(applyHistoryEntry(after, createHistoryEntry(before, after)!, 'undo')).toEqual(before);
+  });
+});
+
+describe('jumpToHistoryIndex', () => {
+  it('undoes or redoes every step between the current position and the target', () => {
+    const docs = [doc([]), doc([text('a')]), doc([text('a'), text('b')]), doc([text('b')])];
+    const state = record(docs);
+    expect(jumpToHistoryIndex(docs[3], state, 0)).toEqual(docs[0]);
+    expect(jumpToHistoryIndex(docs[3], state, 2)).toEqual(docs[2]);
+    expect(jumpToHistoryIndex(docs[1], { ...state, index: 1 }, 3)).toEqual(docs[3]);
+  });
+});
@@ -0,0 +1,237 @@
+import { CanvasObject, CanvasSettings } from '../types';
+import { getObjectLabel } from './layers';
+
+// --- Undo History ---
+// Each step records only what it changed: the top-level objects it replaced (before and after),
+// the object order when objects were added, removed or reordered, and the settings, name and
+// visibility values. Unchanged objects are never copied, so embedded images cost nothing per step.
+// Undo and redo apply a step to the current document rather than restoring a snapshot.
+
+export interface EditorDocument {
+  objects: CanvasObject[];
+  settings: CanvasSettings;
+  name: string;
+  isPublic: boolean;
+}
+
+interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+interface ObjectChange {
+  id: string;
+  before: CanvasObject | null; // Null when the step added the object
+  after: CanvasObject | null; // Null when the step deleted it
+}
+
+export interface HistoryEntry {
+  label: string;
+  time: number;
+  mergeable: boolean; // Repeats of the same edit in quick succession (typing, a stepper) fold into one step
+  objects?: ObjectChange[];
+  order?: ValueChange<string[]>; // Top-level ids
+  settings?: ValueChange<CanvasSettings>;
+  name?: ValueChange<string>;
+  isPublic?: ValueChange<boolean>;
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[];
+  index: number; // Number of entries currently applied; entries past it can be redone
+  dropped: boolean; // The oldest entries fell off at MAX_HISTORY, so index 0 is no longer the opened template
+}
+
+export const EMPTY_HISTORY: HistoryState = { entries: [], index: 0, dropped: false };
+
+export const MAX_HISTORY = 100;
+const MERGE_WINDOW = 1000; // ms between mergeable edits
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const diffObjects = (before: CanvasObject[], after: CanvasObject[]): ObjectChange[] => {
+  const beforeById = new Map(before.map(o => [o.id, o]));
+  const afterIds = new Set(after.map(o => o.id));
+  const changes: ObjectChange[] = [];
+  after.forEach(o => {
+    const prev = beforeById.get(o.id) || null;
+    if (!prev || !isSame(prev, o)) changes.push({ id: o.id, before: prev, after: o });
+  });
+  before.forEach(o => {
+    if (!afterIds.has(o.id)) changes.push({ id: o.id, before: o, after: null });
+  });
+  return changes;
+};
+
+const diffValue = <T,>(before: T, after: T): ValueChange<T> | undefined => {
+  return isSame(before, after) ? undefined : { before, after };
+};
+
+// --- Labels ---
+
+const REORDER_KEYS = ['zIndex'];
+const MOVE_KEYS = ['x', 'y'];
+const RESIZE_KEYS = ['x', 'y', 'width', 'height', 'fontSize', 'letterSpacing', 'minFontSize', 'combPitch', 'columns', 'rowHeight', 'children'];
+const TEXT_KEYS = ['text', 'rawValue'];
+
+const SETTINGS_LABELS: [keyof CanvasSettings, string][] = [
+  ['widthUnit', 'Change page size'],
+  ['heightUnit', 'Change page size'],
+  ['unit', 'Change units'],
+  ['fonts', 'Change fonts'],
+  ['guides', 'Edit guides'],
+  ['gridSize', 'Change grid size'],
+  ['showGrid', 'Toggle grid'],
+  ['snapToGrid', 'Toggle snapping'],
+  ['snapToObjects', 'Toggle snapping'],
+  ['nudgeStep', 'Change nudge step'],
+  ['nudgeStepCoarse', 'Change nudge step'],
+];
+
+// "fontFamily" -> "font family"
+const humanize = (key: string) => key.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+const getChangedKeys = (before: CanvasObject, after: CanvasObject): string[] => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys).filter(k => !isSame(before[k as keyof CanvasObject], after[k as keyof CanvasObject]));
+};
+
+const describeSubject = (objects: CanvasObject[]) => {
+  return objects.length === 1 ? `"${getObjectLabel(objects[0])}"` : `${objects.length} objects`;
+};
+
+const describeObjectChanges = (changes: ObjectChange[]): string => {
+  const added = changes.filter(c => !c.before).map(c => c.after!);
+  const removed = changes.filter(c => !c.after).map(c => c.before!);
+  const modified = changes.filter(c => c.before && c.after);
+  if (added.length > 0 && removed.length === 0 && modified.length === 0) return `Add ${describeSubject(added)}`;
+  if (removed.length > 0 && added.length === 0 && modified.length === 0) return `Delete ${describeSubject(removed)}`;
+  if (modified.length === 0) return 'Edit objects';
+
+  // Edits inside an entered group arrive as a change to the group: describe its children instead
+  if (modified.every(c => c.after!.type === 'group' && getChangedKeys(c.before!, c.after!).every(k => k === 'children'))) {
+    const inner = modified.flatMap(c => diffObjects(c.before!.children || [], c.after!.children || []));
+    if (inner.length > 0 && added.length === 0 && removed.length === 0) return describeObjectChanges(inner);
+  }
+
+  const keys = Array.from(new Set(modified.flatMap(c => getChangedKeys(c.before!, c.after!))));
+  const subject = describeSubject(modified.map(c => c.after!));
+  const only = (allowed: string[]) => keys.every(k => allowed.includes(k));
+  if (added.length > 0 || removed.length > 0) return 'Edit objects';
+  if (only(REORDER_KEYS)) return `Reorder ${subject}`;
+  if (only(MOVE_KEYS)) return `Move ${subject}`;
+  if (only([...MOVE_KEYS, 'rotation'])) return `Rotate ${subject}`;
+  if (only(RESIZE_KEYS)) return `Resize ${subject}`;
+  if (only(TEXT_KEYS)) return `Edit text of ${subject}`;
+  if (keys.length === 1 && keys[0] === 'locked') return `${modified[0].after!.locked ? 'Lock' : 'Unlock'} ${subject}`;
+  if (keys.length === 1 && keys[0] === 'hidden') return `${modified[0].after!.hidden ? 'Hide' : 'Show'} ${subject}`;
+  if (keys.length === 1) return `Change ${humanize(keys[0])} of ${subject}`;
+  return `Edit ${subject}`;
+};
+
+const describeEntry = (entry: Omit<HistoryEntry, 'label'>): string => {
+  if (entry.objects && entry.objects.length > 0) return describeObjectChanges(entry.objects);
+  if (entry.order) return 'Reorder objects';
+  if (entry.settings) {
+    const { before, after } = entry.settings;
+    const match = SETTINGS_LABELS.find(([key]) => !isSame(before[key], after[key]));
+    return match ? match[1] : 'Change page settings';
+  }
+  if (entry.name) return 'Rename template';
+  if (entry.isPublic) return entry.isPublic.after ? 'Make public' : 'Make private';
+  return 'Edit';
+};
+
+// --- Steps ---
+
+/**
+ * The step that turns `before` into `after`, or null if nothing changed.
+ * Without a label one is derived from what changed (e.g. 'Move "Amount"').
+ */
+export const createHistoryEntry = (before: EditorDocument, after: EditorDocument, label?: string, mergeable = false): HistoryEntry | null => {
+  const changes = before.objects === after.objects ? [] : diffObjects(before.objects, after.objects);
+  const beforeOrder = before.objects.map(o => o.id);
+  const afterOrder = after.objects.map(o => o.id);
+  const step: Omit<HistoryEntry, 'label'> = {
+    time: Date.now(),
+    mergeable,
+    objects: changes.length > 0 ? changes : undefined,
+    order: beforeOrder.join('\n') === afterOrder.join('\n') ? undefined : { before: beforeOrder, after: afterOrder },
+    settings: before.settings === after.settings ? undefined : diffValue(before.settings, after.settings),
+    name: diffValue(before.name, after.name),
+    isPublic: diffValue(before.isPublic, after.isPublic),
+  };
+  if (!step.objects && !step.order && !step.settings && !step.name && !step.isPublic) return null;
+  return { ...step, label: label || describeEntry(step) };
+};
+
+const mergeValues = <T,>(older?: ValueChange<T>, newer?: ValueChange<T>): ValueChange<T> | undefined => {
+  if (!older || !newer) return older || newer;
+  return { before: older.before, after: newer.after };
+};
+
+// One step with the combined effect of two consecutive ones
+const mergeEntries = (older: HistoryEntry, newer: HistoryEntry): HistoryEntry => {
+  const objects = new Map((older.objects || []).map(c => [c.id, c]));
+  (newer.objects || []).forEach(c => {
+    const prev = objects.get(c.id);
+    objects.set(c.id, { id: c.id, before: prev ? prev.before : c.before, after: c.after });
+  });
+  return {
+    ...newer,
+    objects: objects.size > 0 ? Array.from(objects.values()) : undefined,
+    order: mergeValues(older.order, newer.order),
+    settings: mergeValues(older.settings, newer.settings),
+    name: mergeValues(older.name, newer.name),
+    isPublic: mergeValues(older.isPublic, newer.isPublic),
+  };
+};
+
+// Add a step after the current one; any undone steps are discarded and the oldest drop off at the cap
+export const pushHistoryEntry = (state: HistoryState, entry: HistoryEntry): HistoryState => {
+  const entries = state.entries.slice(0, state.index);
+  const last = entries[entries.length - 1];
+  const canMerge = last && state.index === state.entries.length && last.mergeable && entry.mergeable
+    && last.label === entry.label && entry.time - last.time < MERGE_WINDOW;
+  let dropped = state.dropped;
+  if (canMerge) {
+    entries[entries.length - 1] = mergeEntries(last, entry);
+  } else {
+    entries.push(entry);
+    if (entries.length > MAX_HISTORY) {
+      entries.shift();
+      dropped = true;
+    }
+  }
+  return { entries, index: entries.length, dropped };
+};
+
+// Apply a step to the document: 'undo' puts back what it replaced, 'redo' applies it again
+export const applyHistoryEntry = (doc: EditorDocument, entry: HistoryEntry, direction: 'undo' | 'redo'): EditorDocument => {
+  const side = direction === 'undo' ? 'before' : 'after';
+  let objects = doc.objects;
+  if (entry.objects || entry.order) {
+    const byId = new Map(doc.objects.map(o => [o.id, o]));
+    (entry.objects || []).forEach(c => {
+      const value = c[side];
+      if (value) byId.set(c.id, value);
+      else byId.delete(c.id);
+    });
+    const order = entry.order ? entry.order[side] : doc.objects.map(o => o.id);
+    objects = order.map(id => byId.get(id)).filter((o): o is CanvasObject => !!o);
+  }
+  return {
+    objects,
+    settings: entry.settings ? entry.settings[side] : doc.settings,
+    name: entry.name ? entry.name[side] : doc.name,
+    isPublic: entry.isPublic ? entry.isPublic[side] : doc.isPublic,
+  };
+};
+
+// The document as it is after `target` steps, starting from the current position
+export const jumpToHistoryIndex = (doc: EditorDocument, state: HistoryState, target: number): EditorDocument => {
+  let result = doc;
+  for (let i = state.index; i > target; i--) result = applyHistoryEntry(result, state.entries[i - 1], 'undo');
+  for (let i = state.index; i < target; i++) result = applyHistoryEntry(result, state.entries[i], 'redo');
+  return result;
+};
@@ -0,0 +1,153 @@
+import { CanvasObject, ImageCrop } from '../types';
+
+// --- Image Adjustments ---
+// Crop, quarter turns and tone filters for image objects. They are stored on the object and the
+// uploaded bitmap (src) is never changed, so every adjustment can be undone or tuned later.
+// The editor, print view and PDF export all draw the image through renderAdjustedImage.
+
+export const DEFAULT_THRESHOLD = 128;
+const MAX_CROP = 95; // % of each axis that may be trimmed; at least 5% stays visible
+const WHITE_LEVEL = 240; // Near-white counts as white for transparency, so scanner noise drops out too
+const MAX_CACHED_IMAGES = 20;
+
+export const NO_CROP: ImageCrop = { top: 0, right: 0, bottom: 0, left: 0 };
+
+export const getImageCrop = (obj: CanvasObject): ImageCrop => ({ ...NO_CROP, ...obj.imageCrop });
+
+const isQuarterTurn = (rotation?: number) => rotation === 90 || rotation === 270;
+
+const hasToneFilters = (obj: CanvasObject): boolean => {
+  return !!obj.brightness || !!obj.contrast || !!obj.grayscale || obj.threshold !== undefined || !!obj.transparentWhite;
+};
+
+export const hasImageAdjustments = (obj: CanvasObject): boolean => {
+  const crop = getImageCrop(obj);
+  const isCropped = crop.top > 0 || crop.right > 0 || crop.bottom > 0 || crop.left > 0;
+  return isCropped || !!obj.imageRotation || hasToneFilters(obj);
+};
+
+// Part of the bitmap still shown along the box's width and height
+const getVisibleFraction = (obj: CanvasObject) => {
+  const crop = getImageCrop(obj);
+  const x = (100 - crop.left - crop.right) / 100;
+  const y = (100 - crop.top - crop.bottom) / 100;
+  return isQuarterTurn(obj.imageRotation) ? { x: y, y: x } : { x, y };
+};
+
+// Each edge is limited by the opposite one, so the crop never trims the whole image away
+const clampCrop = (crop: ImageCrop): ImageCrop => {
+  const clamp = (value: number, opposite: number) => Math.min(Math.max(0, value || 0), MAX_CROP - Math.max(0, opposite || 0));
+  return {
+    top: clamp(crop.top, crop.bottom),
+    right: clamp(crop.right, crop.left),
+    bottom: clamp(crop.bottom, crop.top),
+    left: clamp(crop.left, crop.right),
+  };
+};
+
+// New crop at the same scale: the box grows or shrinks with the visible part instead of stretching it
+export const withImageCrop = (obj: CanvasObject, crop: ImageCrop): CanvasObject => {
+  const clamped = clampCrop(crop);
+  const isCropped = clamped.top > 0 || clamped.right > 0 || clamped.bottom > 0 || clamped.left > 0;
+  const next = { ...obj, imageCrop: isCropped ? clamped : undefined };
+  const before = getVisibleFraction(obj);
+  const after = getVisibleFraction(next);
+  return {
+    ...next,
+    width: obj.width * after.x / before.x,
+    height: (obj.height || 0) * after.y / before.y,
+  };
+};
+
+// A quarter turn swaps the box's width and height so the picture keeps its proportions
+export const withImageRotation = (obj: CanvasObject, rotation: number): CanvasObject => {
+  const normalized = ((Math.round(rotation / 90) * 90) % 360 + 360) % 360 as 0 | 90 | 180 | 270;
+  const swap = isQuarterTurn(obj.imageRotation) !== isQuarterTurn(normalized);
+  return {
+    ...obj,
+    imageRotation: normalized || undefined,
+    width: swap ? obj.height || 0 : obj.width,
+    height: swap ? obj.width : obj.height,
+  };
+};
+
+// Tone filters on RGBA pixels, in order: brightness, contrast, grayscale or threshold, then white to transparent.
+// Uint8ClampedArray clamps every write to 0-255.
+const filterPixels = (data: Uint8ClampedArray, obj: CanvasObject) => {
+  const brightness = (obj.brightness || 0) / 100 * 255;
+  const contrast = Math.max(-100, Math.min(100, obj.contrast || 0)) / 100 * 255;
+  const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+  const { threshold } = obj;
+  const isMonochrome = !!obj.grayscale || threshold !== undefined;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = factor * (data[i] + brightness - 128) + 128;
+    let g = factor * (data[i + 1] + brightness - 128) + 128;
+    let b = factor * (data[i + 2] + brightness - 128) + 128;
+    if (isMonochrome) {
+      const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+      r = g = b = threshold !== undefined ? (luminance >= threshold ? 255 : 0) : luminance;
+    }
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+    if (obj.transparentWhite && data[i] >= WHITE_LEVEL && data[i + 1] >= WHITE_LEVEL && data[i + 2] >= WHITE_LEVEL) {
+      data[i + 3] = 0;
+    }
+  }
+};
+
+// The adjusted bitmap at the source's own resolution; the caller scales it into the object's box
+export const renderAdjustedImage = (img: HTMLImageElement, obj: CanvasObject): HTMLCanvasElement => {
+  const crop = getImageCrop(obj);
+  const sx = img.naturalWidth * crop.left / 100;
+  const sy = img.naturalHeight * crop.top / 100;
+  const sw = Math.max(1, img.naturalWidth * (100 - crop.left - crop.right) / 100);
+  const sh = Math.max(1, img.naturalHeight * (100 - crop.top - crop.bottom) / 100);
+  const turn = isQuarterTurn(obj.imageRotation);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(turn ? sh : sw);
+  canvas.height = Math.round(turn ? sw : sh);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((obj.imageRotation || 0) * Math.PI / 180);
+  ctx.drawImage(img, sx, sy, sw, sh, -sw / 2, -sh / 2, sw, sh);
+
+  if (hasToneFilters(obj)) {
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    filterPixels(pixels.data, obj);
+    ctx.putImageData(pixels, 0, 0);
+  }
+  return canvas;
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+};
+
+// Results are shared by the print view and the PDF capture, which render the same objects
+const adjustedSrcCache = new Map<string, Promise<string>>();
+
+// Data URL of the adjusted image (the original src when nothing is adjusted)
+export const getAdjustedImageSrc = (obj: CanvasObject): Promise<string> => {
+  if (!obj.src || !hasImageAdjustments(obj)) return Promise.resolve(obj.src || '');
+  const key = JSON.stringify([obj.imageCrop, obj.imageRotation, obj.brightness, obj.contrast, obj.grayscale, obj.threshold, obj.transparentWhite]) + obj.src;
+  const cached = adjustedSrcCache.get(key);
+  if (cached) return cached;
+
+  const result = loadImage(obj.src).then(img => renderAdjustedImage(img, obj).toDataURL('image/png'));
+  result.catch(() => adjustedSrcCache.delete(key));
+  adjustedSrcCache.set(key, result);
+  if (adjustedSrcCache.size > MAX_CACHED_IMAGES) {
+    adjustedSrcCache.delete(adjustedSrcCache.keys().next().value as string);
+  }
+  return result;
+};
@@ -0,0 +1,98 @@
+import { CanvasObject } from '../types';
+import { SHAPE_LABELS } from './shapes';
+
+// --- Stacking Order ---
+// `zIndex` is the explicit paint order (higher = on top). Templates saved before it existed
+// have no zIndex and used to render every image below every text, so keep that look for them.
+
+export type ReorderAction = 'forward' | 'backward' | 'front' | 'back';
+
+const legacyRank = (obj: CanvasObject) => (obj.type === 'image' ? 0 : 1);
+
+// Objects in paint order, bottom first
+export const sortByStackingOrder = (objects: CanvasObject[]): CanvasObject[] => {
+  const isLegacy = objects.some(o => o.zIndex === undefined);
+  return [...objects].sort((a, b) => isLegacy
+    ? legacyRank(a) - legacyRank(b)
+    : (a.zIndex as number) - (b.zIndex as number));
+};
+
+// Give every object a dense zIndex matching its current paint order
+export const normalizeStackingOrder = (objects: CanvasObject[]): CanvasObject[] => {
+  return sortByStackingOrder(objects).map((o, i) => (o.zIndex === i ? o : { ...o, zIndex: i }));
+};
+
+// Objects that end up on paper (print, PDF); hidden objects are off everywhere and
+// design-only reference objects exist only in the editor
+export const getPrintableObjects = (objects: CanvasObject[]): CanvasObject[] => {
+  return objects.filter(o => !o.hidden && !o.designOnly);
+};
+
+// --- Design-only Tint ---
+// Reference objects are washed towards a light blue in the editor so they read as "not printed"
+
+export const DESIGN_TINT_COLOR = { red: 56, green: 189, blue: 248 };
+export const DEFAULT_DESIGN_TINT = 0.4;
+
+export const getDesignTint = (obj: CanvasObject): number => {
+  return obj.designOnly ? obj.designTint ?? DEFAULT_DESIGN_TINT : 0;
+};
+
+// Editor opacity: design-only objects also fade with the tint so fields on top stay readable
+export const getCanvasOpacity = (obj: CanvasObject): number => {
+  return (obj.opacity ?? 1) * (1 - getDesignTint(obj) * 0.5);
+};
+
+export const getNextZIndex = (objects: CanvasObject[]): number => {
+  return objects.reduce((max, o) => Math.max(max, o.zIndex ?? -1), -1) + 1;
+};
+
+/**
+ * Move the given objects one step (or all the way) up or down the stack.
+ * Selected objects keep their relative order; returns the list in paint order.
+ */
+export const reorderObjects = (objects: CanvasObject[], ids: string[], action: ReorderAction): CanvasObject[] => {
+  const stack = sortByStackingOrder(objects);
+  const isMoving = (o: CanvasObject) => ids.includes(o.id);
+
+  let result: CanvasObject[];
+  switch (action) {
+    case 'front':
+      result = [...stack.filter(o => !isMoving(o)), ...stack.filter(isMoving)];
+      break;
+    case 'back':
+      result = [...stack.filter(isMoving), ...stack.filter(o => !isMoving(o))];
+      break;
+    case 'forward':
+      result = [...stack];
+      for (let i = result.length - 2; i >= 0; i--) {
+        if (isMoving(result[i]) && !isMoving(result[i + 1])) {
+          [result[i], result[i + 1]] = [result[i + 1], result[i]];
+        }
+      }
+      break;
+    case 'backward':
+      result = [...stack];
+      for (let i = 1; i < result.length; i++) {
+        if (isMoving(result[i]) && !isMoving(result[i - 1])) {
+          [result[i], result[i - 1]] = [result[i - 1], result[i]];
+        }
+      }
+      break;
+  }
+
+  return result.map((o, i) => (o.zIndex === i ? o : { ...o, zIndex: i }));
+};
+
+// Display name for the layers panel when the user has not named an object
+export const getObjectLabel = (obj: CanvasObject): string => {
+  if (obj.name) return obj.name;
+  if (obj.type === 'image') return 'Image';
+  if (obj.type === 'shape') return SHAPE_LABELS[obj.shapeKind || 'rect'];
+  if (obj.type === 'barcode') return `Barcode {{${obj.variableKey || 'value'}}}`;
+  if (obj.type === 'qrcode') return 'QR Code';
+  if (obj.type === 'table') return `Table {{${obj.variableKey || 'items'}}}`;
+  if (obj.type === 'group') return 'Group';
+  const text = (obj.text || '').replace(/\s+/g, ' ').trim();
+  return text ? (text.length > 24 ? text.slice(0, 24) + '…' : text) : 'Text';
+};
@@ -0,0 +1,17 @@
+// --- Leave Guard ---
+// Routes live in the URL hash, so links, setLocation and the browser's Back/Forward all arrive
+// as a hashchange. A page with unsaved work registers a guard here; the router asks it first.
+
+type NavigationGuard = (to: string) => boolean; // false keeps the current route
+
+let activeGuard: NavigationGuard | null = null;
+
+// Returns the function that removes this guard again
+export const setNavigationGuard = (guard: NavigationGuard): (() => void) => {
+  activeGuard = guard;
+  return () => {
+    if (activeGuard === guard) activeGuard = null;
+  };
+};
+
+export const canNavigate = (to: string): boolean => !activeGuard || activeGuard(to);
@@ -0,0 +1,73 @@
+import { CanvasObject, CanvasSettings } from '../types';
+import { flattenObjects, getObjectBounds } from './groups';
+import { getObjectLabel, getPrintableObjects } from './layers';
+import { getTableLayout } from './table';
+import { getLineHeight } from './textStyle';
+import { hasFitMode, isCombText, isTextOverflowing, isVerticalText } from './textLayout';
+
+// --- Print Preflight ---
+// Checks the resolved template right before it goes out: values that spill past their box
+// and objects that sit partly or fully off the page.
+
+export interface PreflightIssue {
+  objectId: string;
+  kind: 'overflow' | 'off-page';
+  message: string;
+}
+
+const EDGE_TOLERANCE = 0.5; // px; rounding in bounds maths must not raise warnings
+
+const getOffPageIssue = (obj: CanvasObject, settings: CanvasSettings): PreflightIssue | null => {
+  const b = getObjectBounds(obj);
+  const label = getObjectLabel(obj);
+  const outside = b.x + b.width <= 0 || b.y + b.height <= 0 || b.x >= settings.width || b.y >= settings.height;
+  if (outside) return { objectId: obj.id, kind: 'off-page', message: `"${label}" is off the page and will not print.` };
+  const clipped = b.x < -EDGE_TOLERANCE || b.y < -EDGE_TOLERANCE
+    || b.x + b.width > settings.width + EDGE_TOLERANCE || b.y + b.height > settings.height + EDGE_TOLERANCE;
+  return clipped ? { objectId: obj.id, kind: 'off-page', message: `"${label}" runs past the page edge and will be cut off.` } : null;
+};
+
+const getOverflowIssue = (obj: CanvasObject): PreflightIssue | null => {
+  const label = getObjectLabel(obj);
+  if (obj.type === 'table') {
+    const { overflow } = getTableLayout(obj);
+    return overflow > 0
+      ? { objectId: obj.id, kind: 'overflow', message: `"${label}" has ${overflow} more row${overflow > 1 ? 's' : ''} than fit; they will not print.` }
+      : null;
+  }
+  return isTextOverflowing(obj)
+    ? { objectId: obj.id, kind: 'overflow', message: `"${label}" does not fit its box.` }
+    : null;
+};
+
+// Auto-height text has no box of its own, so it spills when its wrapped lines run into the next
+// printed object below it. Objects its first line already reaches (frames, backgrounds) do not count;
+// running past the page bottom is reported by the off-page check.
+const getRunIntoIssue = (obj: CanvasObject, others: CanvasObject[]): PreflightIssue | null => {
+  if (obj.type !== 'text' || obj.height !== undefined || obj.rotation) return null;
+  if (hasFitMode(obj) || isCombText(obj) || isVerticalText(obj)) return null;
+  const b = getObjectBounds(obj);
+  const firstLineBottom = obj.y + (obj.fontSize || 16) * getLineHeight(obj);
+  let next: { obj: CanvasObject; top: number } | null = null;
+  for (const other of others) {
+    if (other.id === obj.id) continue;
+    const o = getObjectBounds(other);
+    if (o.x >= b.x + b.width || o.x + o.width <= b.x || o.y < firstLineBottom) continue;
+    if (!next || o.y < next.top) next = { obj: other, top: o.y };
+  }
+  if (!next || b.y + b.height <= next.top + EDGE_TOLERANCE) return null;
+  return { objectId: obj.id, kind: 'overflow', message: `"${getObjectLabel(obj)}" wraps into "${getObjectLabel(next.obj)}" below it.` };
+};
+
+// Issues for every printable leaf object, in page coordinates (objects must already hold resolved values)
+export const getPreflightIssues = (objects: CanvasObject[], settings: CanvasSettings): PreflightIssue[] => {
+  const issues: PreflightIssue[] = [];
+  const printable = getPrintableObjects(flattenObjects(objects));
+  printable.forEach(obj => {
+    const overflow = getOverflowIssue(obj) || getRunIntoIssue(obj, printable);
+    if (overflow) issues.push(overflow);
+    const offPage = getOffPageIssue(obj, settings);
+    if (offPage) issues.push(offPage);
+  });
+  return issues;
+};
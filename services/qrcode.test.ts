@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasObject } from '../types';
+import { DEFAULT_QUIET_ZONE, encodeQr, getQrLayout } from './qrcode';
+
+const qrcode = (props: Partial<CanvasObject>): CanvasObject => ({
+  id: 'q1',
+  type: 'qrcode',
+  x: 0,
+  y: 0,
+  width: 290,
+  height: 290,
+  ...props,
+});
+
+// Dark ring, light ring, 3x3 dark center
+const isFinderPattern = (modules: boolean[][], top: number, left: number) => {
+  for (let y = 0; y < 7; y++) {
+    for (let x = 0; x < 7; x++) {
+      const ring = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+      if (modules[top + y][left + x] !== (ring !== 2)) return false;
+    }
+  }
+  return true;
+};
+
+describe('encodeQr', () => {
+  it('picks the smallest version that fits', () => {
+    expect(encodeQr('HELLO').size).toBe(21);
+    expect(encodeQr('x'.repeat(20)).size).toBe(25);
+  });
+
+  it('needs a larger version for a higher error correction level', () => {
+    const text = 'x'.repeat(14);
+    expect(encodeQr(text, 'L').size).toBe(21);
+    expect(encodeQr(text, 'H').size).toBeGreaterThan(21);
+  });
+
+  it('draws the three finder patterns', () => {
+    const { size, modules } = encodeQr('https://example.com');
+    expect(isFinderPattern(modules, 0, 0)).toBe(true);
+    expect(isFinderPattern(modules, 0, size - 7)).toBe(true);
+    expect(isFinderPattern(modules, size - 7, 0)).toBe(true);
+  });
+
+  it('encodes UTF-8 bytes, not characters', () => {
+    // 17 bytes fit version 1-L; 17 two-byte characters do not
+    expect(encodeQr('a'.repeat(17), 'L').size).toBe(21);
+    expect(encodeQr('é'.repeat(17), 'L').size).toBeGreaterThan(21);
+  });
+
+  it('refuses content beyond version 40', () => {
+    expect(() => encodeQr('x'.repeat(3000), 'H')).toThrow('too long');
+  });
+});
+
+describe('getQrLayout', () => {
+  it('fits the symbol and quiet zone into the object width', () => {
+    const layout = getQrLayout(qrcode({ text: 'HELLO' }));
+    expect(layout.error).toBeUndefined();
+    expect(layout.size).toBe(290);
+    expect(layout.moduleSize).toBe(290 / (21 + DEFAULT_QUIET_ZONE * 2));
+    // The top row of the top-left finder pattern is one 7-module run
+    expect(layout.runs[0]).toEqual({ x: 40, y: 40, width: 70 });
+  });
+
+  it('honours a custom quiet zone', () => {
+    const layout = getQrLayout(qrcode({ text: 'HELLO', width: 210, quietZone: 0 }));
+    expect(layout.moduleSize).toBe(10);
+    expect(layout.runs[0]).toEqual({ x: 0, y: 0, width: 70 });
+  });
+
+  it('reports an encoding error instead of throwing', () => {
+    const layout = getQrLayout(qrcode({ text: 'x'.repeat(3000), ecLevel: 'H' }));
+    expect(layout.runs).toEqual([]);
+    expect(layout.error).toMatch('too long');
+  });
+});
@@ -0,0 +1,411 @@
+import { CanvasObject, QrErrorCorrection } from '../types';
+
+// --- QR Code Encoding ---
+// Byte-mode (UTF-8) QR encoder for versions 1-40, generated locally.
+// Follows ISO/IEC 18004; module coordinates are (x = column, y = row).
+
+export const QR_EC_LABELS: Record<QrErrorCorrection, string> = {
+  L: 'Low (~7%)',
+  M: 'Medium (~15%)',
+  Q: 'Quartile (~25%)',
+  H: 'High (~30%)',
+};
+
+export const DEFAULT_QUIET_ZONE = 4;
+
+// Format-info bits for each level (note: not in L, M, Q, H order)
+const EC_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+const getBit = (x: number, i: number) => ((x >>> i) & 1) !== 0;
+
+// Number of data + ECC bits available in a symbol, after all function patterns
+const getNumRawDataModules = (ver: number): number => {
+  let result = (16 * ver + 128) * ver + 64;
+  if (ver >= 2) {
+    const numAlign = Math.floor(ver / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (ver >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getNumDataCodewords = (ver: number, ecl: QrErrorCorrection): number => {
+  return Math.floor(getNumRawDataModules(ver) / 8) - ECC_CODEWORDS_PER_BLOCK[ecl][ver] * NUM_ERROR_CORRECTION_BLOCKS[ecl][ver];
+};
+
+const getAlignmentPositions = (ver: number): number[] => {
+  if (ver === 1) return [];
+  const size = ver * 4 + 17;
+  const numAlign = Math.floor(ver / 7) + 2;
+  const step = Math.floor((ver * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+};
+
+// --- Reed-Solomon over GF(2^8) with polynomial 0x11D ---
+
+const rsMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsComputeDivisor = (degree: number): number[] => {
+  const result: number[] = new Array(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = rsMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = rsMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsComputeRemainder = (data: number[], divisor: number[]): number[] => {
+  const result: number[] = divisor.map(() => 0);
+  data.forEach(b => {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= rsMultiply(coef, factor); });
+  });
+  return result;
+};
+
+// Split data into blocks, append ECC to each and interleave
+const addEccAndInterleave = (data: number[], ver: number, ecl: QrErrorCorrection): number[] => {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecl][ver];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ecl][ver];
+  const rawCodewords = Math.floor(getNumRawDataModules(ver) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = rsComputeDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = rsComputeRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0); // Placeholder so all blocks line up
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+// --- Matrix construction ---
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(private readonly ver: number, private readonly ecl: QrErrorCorrection) {
+    this.size = ver * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    const size = this.size;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(size - 4, 3);
+    this.drawFinder(3, size - 4);
+
+    const align = getAlignmentPositions(this.ver);
+    const n = align.length;
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        // Skip the three that would overlap finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === n - 1) || (i === n - 1 && j === 0)) continue;
+        this.drawAlignment(align[i], align[j]);
+      }
+    }
+
+    this.drawFormatBits(0); // Reserve the area; redrawn once the mask is chosen
+    this.drawVersion();
+  }
+
+  private drawFinder(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignment(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (EC_FORMAT_BITS[this.ecl] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const size = this.size;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true); // Always-dark module
+  }
+
+  private drawVersion() {
+    if (this.ver < 7) return;
+    let rem = this.ver;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.ver << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, bit);
+      this.setFunction(b, a, bit);
+    }
+  }
+
+  // Zig-zag placement of codeword bits, two columns at a time from the bottom right
+  drawCodewords(data: number[]) {
+    const size = this.size;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // Skip the vertical timing pattern
+      for (let vert = 0; vert < size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y][x]) continue;
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+        if (invert) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  // Standard penalty score; lower is easier to scan
+  getPenaltyScore(): number {
+    const size = this.size;
+    const m = this.modules;
+    let result = 0;
+
+    // Runs of five or more same-colored modules, and finder-like 1:1:3:1:1 patterns
+    const scanLine = (get: (i: number) => boolean) => {
+      let runColor = get(0);
+      let runLen = 1;
+      let bits = runColor ? 1 : 0;
+      for (let i = 1; i < size; i++) {
+        const c = get(i);
+        if (c === runColor) {
+          runLen++;
+          if (runLen === 5) result += 3;
+          else if (runLen > 5) result += 1;
+        } else {
+          runColor = c;
+          runLen = 1;
+        }
+        bits = ((bits << 1) | (c ? 1 : 0)) & 0x7ff;
+        if (i >= 10 && (bits === 0x05d || bits === 0x5d0)) result += 40;
+      }
+    };
+    for (let y = 0; y < size; y++) scanLine(i => m[y][i]);
+    for (let x = 0; x < size; x++) scanLine(i => m[i][x]);
+
+    // 2x2 blocks of one color
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const c = m[y][x];
+        if (c === m[y][x + 1] && c === m[y + 1][x] && c === m[y + 1][x + 1]) result += 3;
+      }
+    }
+
+    // Balance of dark and light modules
+    let dark = 0;
+    m.forEach(row => row.forEach(c => { if (c) dark++; }));
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    result += k * 10;
+
+    return result;
+  }
+}
+
+export interface EncodedQr {
+  size: number; // Modules per side, excluding quiet zone
+  modules: boolean[][]; // [row][column], true = dark
+}
+
+export const encodeQr = (text: string, ecl: QrErrorCorrection = 'M'): EncodedQr => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+
+  // Smallest version that fits the data in byte mode
+  let ver = 1;
+  for (; ver <= 40; ver++) {
+    const countBits = ver <= 9 ? 8 : 16;
+    if (4 + countBits + bytes.length * 8 <= getNumDataCodewords(ver, ecl) * 8) break;
+  }
+  if (ver > 40) throw new Error('Content is too long for a QR code');
+
+  // Mode indicator, character count, data
+  const bits: number[] = [];
+  const appendBits = (val: number, len: number) => {
+    for (let i = len - 1; i >= 0; i--) bits.push((val >>> i) & 1);
+  };
+  appendBits(0x4, 4);
+  appendBits(bytes.length, ver <= 9 ? 8 : 16);
+  bytes.forEach(b => appendBits(b, 8));
+
+  // Terminator, byte alignment and alternating pad bytes
+  const capacityBits = getNumDataCodewords(ver, ecl) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) appendBits(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((acc, b) => (acc << 1) | b, 0));
+  }
+
+  const matrix = new QrMatrix(ver, ecl);
+  matrix.drawCodewords(addEccAndInterleave(data, ver, ecl));
+
+  // Try every mask and keep the one with the lowest penalty
+  let bestMask = 0;
+  let minPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.getPenaltyScore();
+    if (penalty < minPenalty) {
+      bestMask = mask;
+      minPenalty = penalty;
+    }
+    matrix.applyMask(mask); // XOR again to undo
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+
+  return { size: matrix.size, modules: matrix.modules };
+};
+
+// --- Layout ---
+
+export interface QrRun {
+  x: number;
+  y: number;
+  width: number;
+}
+
+export interface QrLayout {
+  runs: QrRun[]; // Horizontal runs of dark modules, object-local canvas px
+  moduleSize: number;
+  size: number; // Outer size including quiet zone, canvas px
+  error?: string;
+}
+
+/**
+ * Resolve a QR object (its `text` is the resolved payload) into dark-module runs.
+ * The symbol plus quiet zone is fitted into the object's square `width`.
+ */
+export const getQrLayout = (obj: CanvasObject): QrLayout => {
+  const size = obj.width;
+  let encoded: EncodedQr;
+  try {
+    encoded = encodeQr(obj.text || '', obj.ecLevel || 'M');
+  } catch (e: any) {
+    return { runs: [], moduleSize: 0, size, error: e.message };
+  }
+
+  const quiet = obj.quietZone ?? DEFAULT_QUIET_ZONE;
+  const moduleSize = size / (encoded.size + quiet * 2);
+  const runs: QrRun[] = [];
+  encoded.modules.forEach((row, y) => {
+    let x = 0;
+    while (x < encoded.size) {
+      if (row[x]) {
+        let end = x;
+        while (end < encoded.size && row[end]) end++;
+        runs.push({ x: (x + quiet) * moduleSize, y: (y + quiet) * moduleSize, width: (end - x) * moduleSize });
+        x = end;
+      } else {
+        x++;
+      }
+    }
+  });
+
+  return { runs, moduleSize, size };
+};
@@ -0,0 +1,28 @@
+import { CanvasObject, DashStyle, ShapeKind } from '../types';
+
+// --- Shape Helpers ---
+// Shared by the Konva editor and the HTML/SVG print view so both draw identical strokes.
+
+export const SHAPE_LABELS: Record<ShapeKind, string> = {
+  line: 'Line',
+  rect: 'Rectangle',
+  roundedRect: 'Rounded Rectangle',
+  ellipse: 'Ellipse',
+};
+
+// Dash pattern in canvas px, proportional to the stroke width
+export const getDashArray = (dashStyle: DashStyle | undefined, strokeWidth: number): number[] => {
+  const w = Math.max(1, strokeWidth);
+  switch (dashStyle) {
+    case 'dashed': return [w * 4, w * 2];
+    case 'dotted': return [w, w * 1.5];
+    default: return [];
+  }
+};
+
+export const getShapeStroke = (obj: CanvasObject) => ({
+  stroke: obj.stroke || '#000000',
+  strokeWidth: obj.strokeWidth ?? 1,
+  dash: getDashArray(obj.dashStyle, obj.strokeWidth ?? 1),
+  fill: obj.fill || undefined,
+});
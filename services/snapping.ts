@@ -0,0 +1,138 @@
+import { CanvasSettings, Guide } from '../types';
+import { pxToUnit, unitToPx } from './utils';
+
+// --- Snapping & Alignment Guides ---
+// All geometry here is in unscaled canvas pixels (the same space as CanvasObject x/y).
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GuideLine {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+}
+
+export interface SnapTargets {
+  vertical: number[]; // x positions
+  horizontal: number[]; // y positions
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: GuideLine[];
+}
+
+// Default grid spacing when a template has not configured one
+export const DEFAULT_GRID_SIZE: Record<CanvasSettings['unit'], number> = {
+  mm: 5,
+  in: 0.25,
+};
+
+// Distance (in screen pixels) within which an edge is pulled onto a target
+export const SNAP_THRESHOLD = 6;
+
+export const getGridSizePx = (settings: CanvasSettings): number => {
+  return unitToPx(settings.gridSize ?? DEFAULT_GRID_SIZE[settings.unit], settings.unit);
+};
+
+// Arrow-key nudge distances in `unit`; Shift uses the coarse step
+export const DEFAULT_NUDGE_STEP: Record<CanvasSettings['unit'], { fine: number; coarse: number }> = {
+  mm: { fine: 0.5, coarse: 5 },
+  in: { fine: 0.02, coarse: 0.2 },
+};
+
+// Unrounded, so a 0.5 mm step stays 0.5 mm instead of snapping to whole pixels
+export const getNudgeStepPx = (settings: CanvasSettings, coarse: boolean): number => {
+  const defaults = DEFAULT_NUDGE_STEP[settings.unit];
+  const step = coarse ? settings.nudgeStepCoarse ?? defaults.coarse : settings.nudgeStep ?? defaults.fine;
+  return unitToPx(step, settings.unit);
+};
+
+// Switch the canvas unit, carrying configured grid and nudge steps across so they keep their physical size.
+// Steps left unset stay unset and pick up the new unit's defaults.
+export const withSettingsUnit = (settings: CanvasSettings, unit: CanvasSettings['unit']): CanvasSettings => {
+  const convert = (value: number | undefined) =>
+    value === undefined ? undefined : Number(pxToUnit(unitToPx(value, settings.unit), unit).toFixed(4));
+  return {
+    ...settings,
+    unit,
+    gridSize: convert(settings.gridSize),
+    nudgeStep: convert(settings.nudgeStep),
+    nudgeStepCoarse: convert(settings.nudgeStepCoarse),
+  };
+};
+
+// Page edges and center plus the edges and centers of every other object
+export const getSnapTargets = (boxes: Box[], pageWidth: number, pageHeight: number): SnapTargets => {
+  const vertical = [0, pageWidth / 2, pageWidth];
+  const horizontal = [0, pageHeight / 2, pageHeight];
+  boxes.forEach(b => {
+    vertical.push(b.x, b.x + b.width / 2, b.x + b.width);
+    horizontal.push(b.y, b.y + b.height / 2, b.y + b.height);
+  });
+  return { vertical, horizontal };
+};
+
+// Ruler guides are always snap targets, even when object snapping is off
+export const addGuideTargets = (targets: SnapTargets | null, guides: Guide[]): SnapTargets | null => {
+  if (guides.length === 0) return targets;
+  const result = targets
+    ? { vertical: [...targets.vertical], horizontal: [...targets.horizontal] }
+    : { vertical: [], horizontal: [] };
+  guides.forEach(g => {
+    (g.orientation === 'vertical' ? result.vertical : result.horizontal).push(g.position);
+  });
+  return result;
+};
+
+// Find the smallest offset that moves one of `edges` onto one of `targets`
+const findClosest = (edges: number[], targets: number[], threshold: number): { offset: number; target: number } | null => {
+  let best: { offset: number; target: number } | null = null;
+  for (const edge of edges) {
+    for (const target of targets) {
+      const offset = target - edge;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, target };
+      }
+    }
+  }
+  return best;
+};
+
+const snapToGrid = (value: number, gridSize: number) => Math.round(value / gridSize) * gridSize - value;
+
+/**
+ * Snap a moving box. Object/page guides win over the grid; each axis is resolved independently.
+ * Pass `targets` as null to disable object snapping, and `gridSize` as 0 to disable the grid.
+ */
+export const snapBox = (box: Box, targets: SnapTargets | null, threshold: number, gridSize: number): SnapResult => {
+  const result: SnapResult = { dx: 0, dy: 0, guides: [] };
+
+  const v = targets && findClosest([box.x, box.x + box.width / 2, box.x + box.width], targets.vertical, threshold);
+  if (v) {
+    result.dx = v.offset;
+    result.guides.push({ orientation: 'vertical', position: v.target });
+  } else if (gridSize > 0) {
+    result.dx = snapToGrid(box.x, gridSize);
+  }
+
+  const h = targets && findClosest([box.y, box.y + box.height / 2, box.y + box.height], targets.horizontal, threshold);
+  if (h) {
+    result.dy = h.offset;
+    result.guides.push({ orientation: 'horizontal', position: h.target });
+  } else if (gridSize > 0) {
+    result.dy = snapToGrid(box.y, gridSize);
+  }
+
+  return result;
+};
+
+// Snap a single point, e.g. a transformer anchor being dragged
+export const snapPoint = (x: number, y: number, targets: SnapTargets | null, threshold: number, gridSize: number): SnapResult => {
+  return snapBox({ x, y, width: 0, height: 0 }, targets, threshold, gridSize);
+};
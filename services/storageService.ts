@@ -1,5 +1,5 @@
 
-import { Template, UserProfile, Client, PrintRecord } from '../types';
+import { Template, TemplateDraft, UserProfile, Client, PrintRecord, FontAsset, CanvasSettings } from '../types';
 import { supabase } from './supabase';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 
@@ -7,6 +7,10 @@ export const GUEST_USER_ID = 'guest-user';
 const LS_TEMPLATES_KEY = 'print_anything_templates';
 const LS_CLIENTS_KEY = 'print_anything_clients';
 const LS_HISTORY_KEY = 'print_anything_history';
+const LS_FONTS_KEY_PREFIX = 'print_anything_fonts_';
+const LS_DRAFT_KEY_PREFIX = 'print_anything_draft_';
+const IDB_NAME = 'print_anything';
+const IDB_FONT_STORE = 'font_data';
 
 // Helper to safely check session without crashing on network error
 const getSessionSafe = async () => {
@@ -220,14 +224,16 @@ export const saveTemplate = async (template: Template, user?: UserProfile): Prom
   }
 };
 
-const saveToLocalStorage = (template: Template) => {
+// Throws when the template could not be stored, so the caller reports the save as failed
+const saveToLocalStorage = async (template: Template) => {
     try {
+        await storeFontData(template.settings.fonts);
         const stored = localStorage.getItem(LS_TEMPLATES_KEY);
         const templates: Template[] = stored ? JSON.parse(stored) : [];
         const existingIdx = templates.findIndex(t => t.id === template.id);
         
         // Ensure we track this as guest/local data
-        const toSave = { ...template, user_id: GUEST_USER_ID, updatedAt: new Date().toISOString() };
+        const toSave = withoutFontData({ ...template, user_id: GUEST_USER_ID, updatedAt: new Date().toISOString() });
         
         if (existingIdx >= 0) {
             templates[existingIdx] = toSave;
@@ -238,7 +244,7 @@ const saveToLocalStorage = (template: Template) => {
         return template.id;
     } catch (e) {
         console.error("LocalStorage save failed", e);
-        return template.id; // Return ID anyway to prevent crash, though data is lost
+        throw e;
     }
 }
 
@@ -335,7 +341,7 @@ export const getTemplateById = async (id: string, user?: UserProfile): Promise<T
         if (stored) {
             const templates: Template[] = JSON.parse(stored);
             const found = templates.find(t => t.id === id);
-            if (found) return found;
+            if (found) return withFontData(found);
         }
     } catch(e) {}
 
@@ -494,6 +500,153 @@ export const deleteClient = async (id: string) => {
     }
 };
 
+// --- Font Binaries ---
+// A font file runs to several MB of base64, past what localStorage holds. Whatever is kept on
+// this device (guest templates, drafts, the font library) stores font data in IndexedDB by
+// font id and leaves the font in localStorage with empty `data`, filled back in on load.
+
+let fontDb: Promise<IDBDatabase> | null = null;
+
+const openFontDb = (): Promise<IDBDatabase> => {
+    if (!fontDb) {
+        fontDb = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(IDB_NAME, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(IDB_FONT_STORE);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        fontDb.catch(() => { fontDb = null; }); // Try again next time
+    }
+    return fontDb;
+};
+
+// Font ids are unique per upload, so the data under an id never changes
+export const storeFontData = async (fonts: FontAsset[] | undefined): Promise<void> => {
+    const withData = (fonts || []).filter(f => f.data);
+    if (withData.length === 0) return;
+    const db = await openFontDb();
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(IDB_FONT_STORE, 'readwrite');
+        const store = tx.objectStore(IDB_FONT_STORE);
+        withData.forEach(f => store.put(f.data, f.id));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+export const loadFontData = async (fonts: FontAsset[]): Promise<FontAsset[]> => {
+    const missing = fonts.filter(f => !f.data);
+    if (missing.length === 0) return fonts;
+    try {
+        const db = await openFontDb();
+        const found = await new Promise<Map<string, string>>((resolve, reject) => {
+            const result = new Map<string, string>();
+            const tx = db.transaction(IDB_FONT_STORE, 'readonly');
+            const store = tx.objectStore(IDB_FONT_STORE);
+            missing.forEach(f => {
+                const request = store.get(f.id);
+                request.onsuccess = () => {
+                    if (typeof request.result === 'string') result.set(f.id, request.result);
+                };
+            });
+            tx.oncomplete = () => resolve(result);
+            tx.onerror = () => reject(tx.error);
+        });
+        return fonts.map(f => (f.data ? f : { ...f, data: found.get(f.id) || '' }));
+    } catch (e) {
+        console.warn("Loading font data failed", e);
+        return fonts;
+    }
+};
+
+const withoutFontData = <T extends { settings: CanvasSettings }>(item: T): T => {
+    if (!item.settings.fonts || item.settings.fonts.length === 0) return item;
+    return { ...item, settings: { ...item.settings, fonts: item.settings.fonts.map(f => ({ ...f, data: '' })) } };
+};
+
+const withFontData = async <T extends { settings: CanvasSettings }>(item: T): Promise<T> => {
+    if (!item.settings.fonts || item.settings.fonts.length === 0) return item;
+    return { ...item, settings: { ...item.settings, fonts: await loadFontData(item.settings.fonts) } };
+};
+
+// --- Font Library ---
+// Fonts kept for reuse across templates on this device, one library per user. Templates embed
+// their own copy, so removing a font here never breaks a saved layout.
+
+const getFontLibraryKey = (userId: string) => `${LS_FONTS_KEY_PREFIX}${userId}`;
+
+const readFontLibrary = (userId: string): FontAsset[] => {
+    const stored = localStorage.getItem(getFontLibraryKey(userId));
+    return stored ? JSON.parse(stored) : [];
+};
+
+export const getFontLibrary = async (userId: string): Promise<FontAsset[]> => {
+    try {
+        return await loadFontData(readFontLibrary(userId));
+    } catch (e) {
+        return [];
+    }
+};
+
+export const saveFontToLibrary = async (font: FontAsset, userId: string): Promise<boolean> => {
+    try {
+        await storeFontData([font]);
+        const fonts = readFontLibrary(userId);
+        const next = [...fonts.filter(f => f.family !== font.family), { ...font, data: '' }];
+        localStorage.setItem(getFontLibraryKey(userId), JSON.stringify(next));
+        return true;
+    } catch (e) {
+        console.error("Saving font to library failed (storage full?)", e);
+        return false;
+    }
+};
+
+export const deleteFontFromLibrary = async (id: string, userId: string): Promise<boolean> => {
+    try {
+        const fonts = readFontLibrary(userId);
+        localStorage.setItem(getFontLibraryKey(userId), JSON.stringify(fonts.filter(f => f.id !== id)));
+        return true;
+    } catch (e) {
+        console.error("Removing font from library failed", e);
+        return false;
+    }
+};
+
+// --- Editor Drafts ---
+// Autosaved working copies, one key per user and template so a large layout is written on its own.
+// Local only: a draft exists to survive a closed tab or a failed save, not to sync.
+
+const getDraftKey = (templateId: string, userId: string) => `${LS_DRAFT_KEY_PREFIX}${userId}_${templateId}`;
+
+export const getDraft = async (templateId: string, userId: string): Promise<TemplateDraft | null> => {
+    try {
+        const stored = localStorage.getItem(getDraftKey(templateId, userId));
+        return stored ? await withFontData(JSON.parse(stored)) : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+// The draft itself is written synchronously before the first await, so it is safe to call while
+// the page unloads; its fonts follow into IndexedDB (usually already there from an earlier write)
+export const saveDraft = async (draft: TemplateDraft, userId: string): Promise<boolean> => {
+    try {
+        localStorage.setItem(getDraftKey(draft.templateId, userId), JSON.stringify(withoutFontData(draft)));
+        await storeFontData(draft.settings.fonts);
+        return true;
+    } catch (e) {
+        console.error("Saving draft failed (storage full?)", e);
+        return false;
+    }
+};
+
+export const deleteDraft = async (templateId: string, userId: string): Promise<void> => {
+    try {
+        localStorage.removeItem(getDraftKey(templateId, userId));
+    } catch (e) {}
+};
+
 // --- Print History ---
 
 export interface HistoryItem extends PrintRecord {
@@ -0,0 +1,134 @@
+import { CanvasObject, TableColumn } from '../types';
+import { formatCurrency, generateId } from './utils';
+
+// --- Line-Item Tables ---
+// A table is fed by one list-valued print variable. Print values are plain strings,
+// so the rows travel as a JSON array of objects keyed by column key.
+
+export type TableRow = Record<string, string>;
+
+export const DEFAULT_ROW_HEIGHT = 24;
+export const DEFAULT_MAX_ROWS = 8;
+const CELL_PADDING = 4;
+
+export const createDefaultColumns = (): TableColumn[] => [
+  { id: generateId(), key: 'description', header: 'Description', width: 220, align: 'left', format: 'text' },
+  { id: generateId(), key: 'qty', header: 'Qty', width: 50, align: 'right', format: 'number' },
+  { id: generateId(), key: 'unit_price', header: 'Unit Price', width: 90, align: 'right', format: 'currency' },
+  { id: generateId(), key: 'amount', header: 'Amount', width: 100, align: 'right', format: 'currency' },
+];
+
+export const parseTableRows = (value: string | undefined): TableRow[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(r => r && typeof r === 'object')
+      .map(r => Object.fromEntries(Object.entries(r).map(([k, v]) => [k, v == null ? '' : String(v)])));
+  } catch {
+    return [];
+  }
+};
+
+export const serializeTableRows = (rows: TableRow[]): string => JSON.stringify(rows);
+
+// Blank amounts fall back to qty x unit price so operators only type what they know
+const getCellValue = (row: TableRow, column: TableColumn): string => {
+  const value = row[column.key] ?? '';
+  if (value === '' && column.key === 'amount') {
+    const qty = parseFloat(row.qty);
+    const price = parseFloat(row.unit_price);
+    if (!isNaN(qty) && !isNaN(price)) return String(qty * price);
+  }
+  return value;
+};
+
+export const formatCellValue = (value: string, column: TableColumn): string => {
+  if (value === '') return '';
+  switch (column.format) {
+    case 'currency': return formatCurrency(value);
+    case 'number': {
+      const num = parseFloat(value);
+      return isNaN(num) ? value : num.toLocaleString('en-US', { maximumFractionDigits: 4 });
+    }
+    default: return value;
+  }
+};
+
+export interface TableCell {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  align: TableColumn['align'];
+  header: boolean;
+}
+
+export interface TableLayout {
+  columns: { column: TableColumn; x: number; width: number }[];
+  width: number;
+  height: number; // Always reserves room for maxRows, so the table never grows at print time
+  rowHeight: number;
+  headerHeight: number;
+  cells: TableCell[]; // Header and body cells, object-local canvas px
+  rowLines: number[]; // y of every horizontal rule inside the table
+  overflow: number; // Rows dropped because of maxRows
+}
+
+export const getTableLayout = (obj: CanvasObject): TableLayout => {
+  const columnDefs = obj.columns || [];
+  const rowHeight = obj.rowHeight || DEFAULT_ROW_HEIGHT;
+  const maxRows = obj.maxRows || DEFAULT_MAX_ROWS;
+  const headerHeight = obj.showHeader !== false ? rowHeight : 0;
+
+  let x = 0;
+  const columns = columnDefs.map(column => {
+    const col = { column, x, width: column.width };
+    x += column.width;
+    return col;
+  });
+
+  const textOffset = (rowHeight - (obj.fontSize || 12)) / 2;
+  const cells: TableCell[] = [];
+  if (headerHeight > 0) {
+    columns.forEach(c => cells.push({
+      text: c.column.header,
+      x: c.x + CELL_PADDING,
+      y: textOffset,
+      width: c.width - CELL_PADDING * 2,
+      align: c.column.align,
+      header: true,
+    }));
+  }
+
+  const rows = parseTableRows(obj.text);
+  rows.slice(0, maxRows).forEach((row, i) => {
+    const y = headerHeight + i * rowHeight + textOffset;
+    columns.forEach(c => cells.push({
+      text: formatCellValue(getCellValue(row, c.column), c.column),
+      x: c.x + CELL_PADDING,
+      y,
+      width: c.width - CELL_PADDING * 2,
+      align: c.column.align,
+      header: false,
+    }));
+  });
+
+  const rowLines: number[] = [];
+  for (let i = 0; i < maxRows; i++) {
+    const y = headerHeight + i * rowHeight;
+    if (y > 0) rowLines.push(y);
+  }
+
+  return {
+    columns,
+    width: x,
+    height: headerHeight + maxRows * rowHeight,
+    rowHeight,
+    headerHeight,
+    cells,
+    rowLines,
+    overflow: Math.max(0, rows.length - maxRows),
+  };
+};
@@ -0,0 +1,248 @@
+import { CanvasObject } from '../types';
+import { getLineHeight } from './textStyle';
+import { MM_TO_PX } from './utils';
+
+// --- Vertical Text Layout ---
+// Traditional Chinese vertical writing: characters run top to bottom, columns run right to left.
+// Laid out glyph by glyph here so the canvas, print and PDF place every character identically.
+
+// Brackets, dashes and sideways Latin turn 90° clockwise in vertical text
+const ROTATED_CHARS = new Set(Array.from('「」『』（）()《》〈〉【】〔〕［］｛｝[]{}<>ー—－-～~…‥＿_｜|'));
+const isRotated = (char: string) => ROTATED_CHARS.has(char) || /[A-Za-z]/.test(char);
+
+// Full stops and commas move from the bottom-left to the top-right of their cell
+const CORNER_CHARS = new Set(Array.from('。，、．,.｡､'));
+
+// Never start a column with these; they hang off the end of the previous one instead
+const NO_BREAK_BEFORE = new Set(Array.from('。，、．,.：；！？」』）》〉】'));
+
+export interface VerticalGlyph {
+  char: string;
+  x: number; // Top-left of the glyph's square cell, object-local px
+  y: number;
+  size: number; // Cell edge, equals the font size
+  kind: 'upright' | 'rotated' | 'corner';
+}
+
+export interface VerticalLayout {
+  glyphs: VerticalGlyph[];
+  width: number; // Of all columns together
+  height: number; // Box height, or the longest column when the box has none
+}
+
+export const isVerticalText = (obj: CanvasObject): boolean => obj.type === 'text' && obj.writingMode === 'vertical';
+
+// Break text into columns: at every newline, and wherever a column fills the box height
+const splitColumns = (text: string, perColumn: number): string[][] => {
+  const columns: string[][] = [];
+  text.split('\n').forEach(paragraph => {
+    const chars = Array.from(paragraph);
+    if (chars.length === 0) {
+      columns.push([]);
+      return;
+    }
+    let i = 0;
+    while (i < chars.length) {
+      let end = Math.min(i + perColumn, chars.length);
+      while (end < chars.length && NO_BREAK_BEFORE.has(chars[end])) end++;
+      columns.push(chars.slice(i, end));
+      i = end;
+    }
+  });
+  return columns;
+};
+
+export const getVerticalLayout = (obj: CanvasObject): VerticalLayout => {
+  const size = obj.fontSize || 16;
+  const spacing = obj.letterSpacing || 0;
+  const advance = size + spacing;
+  const columnWidth = size * getLineHeight(obj);
+  const perColumn = obj.height ? Math.max(1, Math.floor((obj.height + spacing) / advance)) : Infinity;
+
+  const columns = splitColumns(obj.text || '', perColumn);
+  const columnLength = (col: string[]) => Math.max(0, col.length * advance - spacing);
+  const height = obj.height || Math.max(0, ...columns.map(columnLength));
+
+  const glyphs: VerticalGlyph[] = [];
+  columns.forEach((col, c) => {
+    const x = obj.width - (c + 1) * columnWidth + (columnWidth - size) / 2;
+    // Horizontal alignment maps onto the column: left = top, center = middle, right = bottom
+    const free = height - columnLength(col);
+    const start = obj.align === 'center' ? free / 2 : obj.align === 'right' ? free : 0;
+    col.forEach((char, i) => {
+      glyphs.push({
+        char,
+        x,
+        y: start + i * advance,
+        size,
+        kind: CORNER_CHARS.has(char) ? 'corner' : isRotated(char) ? 'rotated' : 'upright',
+      });
+    });
+  });
+
+  return { glyphs, width: columns.length * columnWidth, height };
+};
+
+// Offset of a corner glyph (see CORNER_CHARS), as a fraction of the font size
+export const CORNER_SHIFT = 0.5;
+
+// --- Fit to Box ---
+// Variable values (e.g. amounts in words) can be far longer than the field drawn for them.
+// Lines are broken here, with canvas text metrics, and drawn as-is by the canvas and print,
+// so both wrap at exactly the same places.
+
+export const DEFAULT_MIN_FONT_SIZE = 6;
+const SHRINK_STEP = 0.5;
+const ELLIPSIS = '…';
+
+// CJK characters can break anywhere; everything else breaks at spaces
+const CJK = '\\u2E80-\\u9FFF\\uF900-\\uFAFF\\uFF00-\\uFFEF';
+const TOKEN_PATTERN = new RegExp(`[${CJK}]|\\s+|[^\\s${CJK}]+`, 'g');
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measureWidth = (text: string, obj: CanvasObject, fontSize: number): number => {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext || !text) return 0;
+  const style = `${obj.italic ? 'italic ' : ''}${obj.bold ? 'bold ' : ''}`;
+  measureContext.font = `${style}${fontSize}px "${obj.fontFamily || 'Arial'}"`;
+  return measureContext.measureText(text).width + Array.from(text).length * (obj.letterSpacing || 0);
+};
+
+// Lines as drawn within the object's width (the canvas and print wrap at the same places)
+export const wrapLines = (text: string, obj: CanvasObject, fontSize: number): string[] => {
+  const fits = (s: string) => measureWidth(s, obj, fontSize) <= obj.width;
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    (paragraph.match(TOKEN_PATTERN) || []).forEach(token => {
+      if (fits(line + token)) {
+        line += token;
+        return;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = '';
+      if (/^\s+$/.test(token)) return;
+      // A single word wider than the box is broken between characters
+      Array.from(token).forEach(char => {
+        if (line && !fits(line + char)) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      });
+    });
+    lines.push(line.trimEnd());
+  });
+  return lines;
+};
+
+const truncateWithEllipsis = (line: string, obj: CanvasObject, fontSize: number): string => {
+  const chars = Array.from(line.trimEnd());
+  while (chars.length > 0 && measureWidth(chars.join('') + ELLIPSIS, obj, fontSize) > obj.width) chars.pop();
+  return chars.join('').trimEnd() + ELLIPSIS;
+};
+
+export interface FittedText {
+  lines: string[];
+  fontSize: number;
+  overflow: boolean; // Text had to be cut (or does not fit even at the minimum size)
+}
+
+// Lines allowed in the box: explicit max lines, else as many as the box height holds
+const getLineLimit = (obj: CanvasObject, fontSize: number, fallback: number): number => {
+  if (obj.maxLines) return obj.maxLines;
+  if (obj.height) return Math.max(1, Math.floor(obj.height / (fontSize * getLineHeight(obj))));
+  return fallback;
+};
+
+const cutToLimit = (lines: string[], limit: number, obj: CanvasObject, fontSize: number, ellipsis: boolean): FittedText => {
+  if (lines.length <= limit) return { lines, fontSize, overflow: false };
+  const kept = lines.slice(0, limit);
+  if (ellipsis) kept[limit - 1] = truncateWithEllipsis(kept[limit - 1] + ' ' + lines[limit], obj, fontSize);
+  return { lines: kept, fontSize, overflow: true };
+};
+
+/**
+ * Lines and font size a text object is drawn with under its fit mode:
+ * - shrink: step the font size down to the minimum until the text fits, then truncate with an ellipsis
+ * - wrap: wrap within the width and drop lines past the limit
+ * - ellipsis: like wrap, but mark the cut with an ellipsis
+ */
+export const getFittedText = (obj: CanvasObject): FittedText => {
+  const fontSize = obj.fontSize || 16;
+  const text = obj.text || '';
+
+  switch (obj.fitMode) {
+    case 'shrink': {
+      const minSize = Math.min(obj.minFontSize || DEFAULT_MIN_FONT_SIZE, fontSize);
+      for (let size = fontSize; size >= minSize; size -= SHRINK_STEP) {
+        const lines = wrapLines(text, obj, size);
+        // Without a height or line limit, shrinking keeps the value on one line
+        if (lines.length <= getLineLimit(obj, size, 1)) return { lines, fontSize: size, overflow: false };
+      }
+      return cutToLimit(wrapLines(text, obj, minSize), getLineLimit(obj, minSize, 1), obj, minSize, true);
+    }
+    case 'wrap':
+      return cutToLimit(wrapLines(text, obj, fontSize), getLineLimit(obj, fontSize, Infinity), obj, fontSize, false);
+    case 'ellipsis':
+      return cutToLimit(wrapLines(text, obj, fontSize), getLineLimit(obj, fontSize, 1), obj, fontSize, true);
+    default:
+      return { lines: text.split('\n'), fontSize, overflow: false };
+  }
+};
+
+export const hasFitMode = (obj: CanvasObject): boolean => {
+  return obj.type === 'text' && !!obj.fitMode && obj.fitMode !== 'none' && !isVerticalText(obj) && !isCombText(obj);
+};
+
+// --- Comb Fields ---
+// One character per cell, for forms and cheque amount boxes. Cells have a physical pitch
+// so they line up with pre-printed boxes; the object's width follows from it.
+
+export const DEFAULT_COMB_PITCH_MM = 5;
+
+export interface CombCell {
+  char: string;
+  x: number; // Left edge of the cell, object-local px
+}
+
+export interface CombLayout {
+  cells: CombCell[]; // Only the cells holding a character
+  count: number; // All cells, filled or not
+  cellWidth: number;
+  width: number;
+  height: number;
+  overflow: number; // Characters beyond the last cell, which are not printed
+}
+
+export const isCombText = (obj: CanvasObject): boolean => obj.type === 'text' && !!obj.combCells && !isVerticalText(obj);
+
+export const getCombLayout = (obj: CanvasObject): CombLayout => {
+  const count = Math.max(1, obj.combCells || 1);
+  const cellWidth = (obj.combPitch || DEFAULT_COMB_PITCH_MM) * MM_TO_PX;
+  const chars = Array.from((obj.text || '').replace(/\n/g, ''));
+  const kept = chars.slice(0, count);
+  const start = obj.combAlign === 'right' ? count - kept.length : 0;
+  return {
+    cells: kept.map((char, i) => ({ char, x: (start + i) * cellWidth })),
+    count,
+    cellWidth,
+    width: count * cellWidth,
+    height: obj.height || (obj.fontSize || 16) * getLineHeight(obj),
+    overflow: chars.length - kept.length,
+  };
+};
+
+// Whether text needs more room than its box: cut by its fit mode, wrapped past a fixed
+// height, or (vertical) more columns than the box is wide
+// Auto-height text has no box to spill past; preflight checks it against what lies below it
+export const isTextOverflowing = (obj: CanvasObject): boolean => {
+  if (obj.type !== 'text') return false;
+  if (isVerticalText(obj)) return getVerticalLayout(obj).width > obj.width + 0.5;
+  if (isCombText(obj)) return getCombLayout(obj).overflow > 0;
+  if (hasFitMode(obj)) return getFittedText(obj).overflow;
+  if (!obj.height) return false;
+  const fontSize = obj.fontSize || 16;
+  return wrapLines(obj.text || '', obj, fontSize).length * fontSize * getLineHeight(obj) > obj.height + 0.5;
+};
@@ -0,0 +1,52 @@
+import type { CSSProperties } from 'react';
+import { CanvasObject } from '../types';
+
+// --- Text Styling ---
+// One place that turns a text object's style fields into Konva props and CSS,
+// so the canvas, the inline editor and print/PDF all draw the same thing.
+
+export const DEFAULT_TEXT_COLOR = '#000000';
+export const DEFAULT_LINE_HEIGHT = 1.2; // Multiple of the font size, as print has always used
+
+export const getLineHeight = (obj: CanvasObject): number => obj.lineHeight || DEFAULT_LINE_HEIGHT;
+
+// Konva takes style and weight in one string, e.g. "italic bold"
+export const getKonvaFontStyle = (obj: CanvasObject): string => {
+  const parts = [obj.italic ? 'italic' : '', obj.bold ? 'bold' : ''].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : 'normal';
+};
+
+// Same value works for Konva's textDecoration and CSS text-decoration-line
+export const getTextDecoration = (obj: CanvasObject): string => {
+  const parts = [obj.underline ? 'underline' : '', obj.strikethrough ? 'line-through' : ''].filter(Boolean);
+  return parts.join(' ');
+};
+
+export const getKonvaTextStyle = (obj: CanvasObject) => ({
+  fontStyle: getKonvaFontStyle(obj),
+  textDecoration: getTextDecoration(obj),
+  fill: obj.color || DEFAULT_TEXT_COLOR,
+  letterSpacing: obj.letterSpacing || 0,
+  lineHeight: getLineHeight(obj),
+  height: obj.height,
+  verticalAlign: obj.height ? obj.verticalAlign || 'top' : 'top',
+});
+
+export const getCssTextStyle = (obj: CanvasObject): CSSProperties => ({
+  fontSize: `${obj.fontSize || 16}px`,
+  fontFamily: obj.fontFamily,
+  fontWeight: obj.bold ? 'bold' : 'normal',
+  fontStyle: obj.italic ? 'italic' : 'normal',
+  textDecoration: getTextDecoration(obj) || 'none',
+  color: obj.color || DEFAULT_TEXT_COLOR,
+  letterSpacing: obj.letterSpacing ? `${obj.letterSpacing}px` : undefined,
+  lineHeight: getLineHeight(obj),
+  textAlign: obj.align || 'left',
+});
+
+// Vertical alignment only means something inside a fixed-height box
+export const getCssVerticalAlign = (obj: CanvasObject): CSSProperties => {
+  if (!obj.height) return {};
+  const justifyContent = obj.verticalAlign === 'middle' ? 'center' : obj.verticalAlign === 'bottom' ? 'flex-end' : 'flex-start';
+  return { height: `${obj.height}px`, display: 'flex', flexDirection: 'column', justifyContent };
+};
@@ -4,6 +4,12 @@ export const generateId = (): string => {
   return Math.random().toString(36).substr(2, 9);
 };
 
+// Focused form controls keep their own keys (arrows, Space, Backspace) instead of editor shortcuts
+export const isFormControl = (target: EventTarget | null): boolean => {
+  const el = target as HTMLElement | null;
+  return !!el && (['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(el.tagName) || el.isContentEditable);
+};
+
 // --- Currency Logic ---
 
 const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine'];
@@ -172,6 +178,20 @@ export const formatDate = (date: Date, formatStr: string): string => {
   }
 };
 
+// --- Template Placeholders ---
+// `{{key}}` placeholders inside free text, e.g. a QR payload "INV-{{invoice_no}}"
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export const getTemplateVariables = (template: string): string[] => {
+  return Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), m => m[1])));
+};
+
+// Placeholders without a print value are left as-is, like variable text objects in edit mode
+export const resolveTemplate = (template: string, values: Record<string, string>): string => {
+  return template.replace(PLACEHOLDER_PATTERN, (match, key) => (values[key] !== undefined ? values[key] : match));
+};
+
 // --- Unit Conversion ---
 // 1 inch = 96 px (CSS standard)
 // 1 mm = 3.7795 px
@@ -179,5 +199,14 @@ export const MM_TO_PX = 3.7795;
 export const IN_TO_PX = 96;
 
 export const convertToPx = (value: number, unit: 'mm' | 'in'): number => {
-  return Math.round(value * (unit === 'mm' ? MM_TO_PX : IN_TO_PX));
+  return Math.round(unitToPx(value, unit));
+};
+
+// Unrounded conversions for sub-millimetre geometry (grid spacing, positions)
+export const unitToPx = (value: number, unit: 'mm' | 'in'): number => {
+  return value * (unit === 'mm' ? MM_TO_PX : IN_TO_PX);
+};
+
+export const pxToUnit = (px: number, unit: 'mm' | 'in'): number => {
+  return px / (unit === 'mm' ? MM_TO_PX : IN_TO_PX);
 };
\ No newline at end of file
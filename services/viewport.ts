@@ -0,0 +1,45 @@
+import { Box } from './snapping';
+
+// --- Canvas Viewport ---
+// Zoom is the editor scale (screen px per canvas px). The page scrolls inside the viewport,
+// so panning is the viewport's scroll position.
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 4;
+export const ZOOM_STEP = 0.1; // Toolbar +/- buttons
+const WHEEL_ZOOM_SPEED = 0.002; // Per wheel delta unit; exponential so zooming feels even at any scale
+
+export const VIEWPORT_PADDING = 32; // Space around the page (and rulers) inside the viewport
+
+export const clampZoom = (zoom: number): number => {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(zoom * 1000) / 1000));
+};
+
+export const getWheelZoom = (zoom: number, deltaY: number): number => {
+  return clampZoom(zoom * Math.exp(-deltaY * WHEEL_ZOOM_SPEED));
+};
+
+export type FitMode = 'width' | 'page';
+
+// Zoom at which the page fills the available space: its width only, or all of it
+export const getFitZoom = (available: { width: number; height: number }, page: { width: number; height: number }, mode: FitMode): number => {
+  if (page.width <= 0 || page.height <= 0) return 1;
+  const byWidth = available.width / page.width;
+  return clampZoom(mode === 'width' ? byWidth : Math.min(byWidth, available.height / page.height));
+};
+
+export type ScreenRect = Pick<DOMRect, 'left' | 'top' | 'right' | 'bottom'>;
+
+// Part of the page currently on screen, in canvas px (empty when the page is scrolled out of view)
+export const getVisiblePageBox = (viewport: ScreenRect, page: ScreenRect, zoom: number): Box => {
+  const left = Math.max(viewport.left, page.left);
+  const top = Math.max(viewport.top, page.top);
+  const right = Math.min(viewport.right, page.right);
+  const bottom = Math.min(viewport.bottom, page.bottom);
+  return {
+    x: (left - page.left) / zoom,
+    y: (top - page.top) / zoom,
+    width: Math.max(0, right - left) / zoom,
+    height: Math.max(0, bottom - top) / zoom,
+  };
+};
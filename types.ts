@@ -34,23 +34,109 @@ export interface PrintRecord {
   created_at: string;
 }
 
+export type ShapeKind = 'line' | 'rect' | 'roundedRect' | 'ellipse';
+export type DashStyle = 'solid' | 'dashed' | 'dotted';
+export type BarcodeSymbology = 'CODE128' | 'CODE39' | 'EAN13' | 'ITF';
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+// One column of a line-item table; `key` is the field name in each row of the list variable
+export interface TableColumn {
+  id: string;
+  key: string;
+  header: string;
+  width: number; // px
+  align: 'left' | 'center' | 'right';
+  format: 'text' | 'number' | 'currency';
+}
+
+// Image crop, in % of the uploaded bitmap's size trimmed from each edge (before its rotation)
+export interface ImageCrop {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
 export interface CanvasObject {
   id: string;
-  type: 'text' | 'image';
+  type: 'text' | 'image' | 'shape' | 'barcode' | 'qrcode' | 'table' | 'group';
   x: number;
   y: number;
   width: number;
-  height?: number; // Optional for text (auto-calc), required for image
-  text?: string; // Only for text
-  rawValue?: string; // Only for text
+  height?: number; // Optional for text (auto-calc, or a fixed box for vertical alignment), required for image and shape (ignored for line); equals width for qrcode
+  text?: string; // Resolved content (text, barcode value, QR payload, table rows as JSON)
+  rawValue?: string; // Default / test value for text and barcode; payload template with {{key}} placeholders for qrcode
   src?: string; // Only for image (base64)
-  variableKey?: string; // For LogicType.VARIABLE and currencies
-  fontSize?: number; // Only for text
-  fontFamily?: string; // Only for text
+  imageCrop?: ImageCrop; // Only for image: margins trimmed off the uploaded bitmap
+  imageRotation?: 90 | 180 | 270; // Only for image: quarter turns of the bitmap (clockwise) within its box
+  brightness?: number; // Only for image, -100 to 100
+  contrast?: number; // Only for image, -100 to 100
+  grayscale?: boolean; // Only for image
+  threshold?: number; // Only for image: set to print pure black and white, split at this luminance (0-255)
+  transparentWhite?: boolean; // Only for image: white (after the other filters) lets the page show through
+  variableKey?: string; // For LogicType.VARIABLE and currencies; list variable for tables
+  fontSize?: number; // For text, barcode text and table cells
+  fontFamily?: string; // For text, barcode text and table cells
   align?: 'left' | 'center' | 'right'; // Only for text
+  verticalAlign?: 'top' | 'middle' | 'bottom'; // Only for text with a fixed height
+  bold?: boolean; // Only for text
+  italic?: boolean; // Only for text
+  underline?: boolean; // Only for text
+  strikethrough?: boolean; // Only for text
+  color?: string; // Only for text, defaults to black
+  letterSpacing?: number; // Only for text, extra px between characters
+  lineHeight?: number; // Only for text, multiple of the font size (see services/textStyle.ts)
+  writingMode?: 'horizontal' | 'vertical'; // Only for text; vertical runs top to bottom in right-to-left columns
+  fitMode?: 'none' | 'shrink' | 'wrap' | 'ellipsis'; // Only for text: how a long value is fitted into its box
+  maxLines?: number; // Only for text with a fit mode; defaults to what the box height holds
+  minFontSize?: number; // Only for text with fitMode 'shrink'
+  combCells?: number; // Only for text: set to print one character per cell (forms, cheque amount boxes)
+  combPitch?: number; // Only for comb text, cell width in mm
+  combAlign?: 'left' | 'right'; // Only for comb text: fill cells from the left, or right-align the value
+  combBorders?: boolean; // Only for comb text: print cell outlines (leave off for pre-printed boxes)
   logicType?: LogicType; // Only for text
   dateFormat?: string;
   opacity?: number; // 0 to 1
+  rotation?: number; // Degrees clockwise around the top-left corner (x, y)
+  shapeKind?: ShapeKind; // Only for shape; a line runs from (x, y) to (x + width, y)
+  stroke?: string; // Only for shape
+  strokeWidth?: number; // Only for shape
+  dashStyle?: DashStyle; // Only for shape
+  fill?: string; // Only for shape, empty for no fill
+  cornerRadius?: number; // Only for roundedRect
+  symbology?: BarcodeSymbology; // Only for barcode
+  moduleWidth?: number; // Only for barcode, narrowest bar width in mm
+  showText?: boolean; // Only for barcode, human-readable line under the bars
+  ecLevel?: QrErrorCorrection; // Only for qrcode
+  quietZone?: number; // Only for qrcode, blank margin in modules
+  columns?: TableColumn[]; // Only for table; width is the sum of column widths
+  rowHeight?: number; // Only for table
+  maxRows?: number; // Only for table; height always reserves this many rows
+  showHeader?: boolean; // Only for table
+  showBorders?: boolean; // Only for table
+  children?: CanvasObject[]; // Only for group, in group-local coordinates (see services/groups.ts)
+  zIndex?: number; // Stacking order, higher is on top
+  name?: string; // Label shown in the layers panel
+  hidden?: boolean; // Off on the canvas and in print
+  locked?: boolean;
+  designOnly?: boolean; // Reference object (e.g. scan of blank stock): shown in the editor, never printed or exported
+  designTint?: number; // 0 to 1, strength of the editor tint on design-only objects
+}
+
+// Uploaded font file, embedded as a data URL so the template renders anywhere
+export interface FontAsset {
+  id: string;
+  family: string; // CSS font-family name objects refer to
+  fileName: string;
+  format: 'truetype' | 'opentype' | 'woff' | 'woff2';
+  data: string; // base64 data URL (empty in local storage; the file itself is kept in IndexedDB)
+}
+
+// User-placed ruler guide, saved with the template
+export interface Guide {
+  id: string;
+  orientation: 'vertical' | 'horizontal';
+  position: number; // px from the left (vertical) or top (horizontal) page edge
 }
 
 export interface CanvasSettings {
@@ -60,6 +146,14 @@ export interface CanvasSettings {
   widthUnit: number;
   heightUnit: number;
   dpi: number;
+  gridSize?: number; // Grid spacing in `unit`
+  showGrid?: boolean;
+  snapToGrid?: boolean;
+  snapToObjects?: boolean; // Defaults to on
+  nudgeStep?: number; // Arrow-key step in `unit`
+  nudgeStepCoarse?: number; // Shift + arrow-key step in `unit`
+  guides?: Guide[];
+  fonts?: FontAsset[]; // Custom fonts embedded in this template
 }
 
 export interface Template {
@@ -70,4 +164,14 @@ export interface Template {
   settings: CanvasSettings;
   is_public: boolean;
   updatedAt: string;
+}
+
+// Unsaved editor state kept on this device until the template is saved or the draft discarded
+export interface TemplateDraft {
+  templateId: string; // 'new' for a template that has never been saved
+  name: string;
+  objects: CanvasObject[];
+  settings: CanvasSettings;
+  is_public: boolean;
+  savedAt: string;
 }
\ No newline at end of file